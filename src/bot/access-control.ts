@@ -0,0 +1,161 @@
+import type { Context, MiddlewareFn } from 'telegraf';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { AccessConfig, AccessRole, MCPServerConfig } from '../types/index.js';
+import type { Translator } from '../i18n/index.js';
+import logger from '../utils/logger.js';
+
+export interface AccessGrant {
+  userId: string;
+  role: AccessRole;
+  grantedBy: string;
+  grantedAt: number;
+}
+
+/**
+ * Decides who may use the bot and which MCP servers. Access comes from the
+ * allowlists in the configuration plus the grants admins make with /grant,
+ * which are kept in a JSON file. With nothing configured the bot stays open.
+ */
+export class AccessControl {
+  private config: AccessConfig;
+  private grants: Map<string, AccessGrant> = new Map();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(config: AccessConfig) {
+    this.config = config;
+  }
+
+  load(): void {
+    if (!existsSync(this.config.grantsPath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.config.grantsPath, 'utf-8'));
+      for (const grant of parsed.grants || []) {
+        this.grants.set(grant.userId, grant);
+      }
+      logger.info(`Loaded ${this.grants.size} access grants`);
+    } catch (error) {
+      logger.error(`Failed to read access grants from ${this.config.grantsPath}:`, error);
+    }
+  }
+
+  isOpen(): boolean {
+    return (
+      this.config.allowedUsers.length === 0 &&
+      this.config.allowedChats.length === 0 &&
+      this.config.adminUsers.length === 0 &&
+      this.grants.size === 0
+    );
+  }
+
+  getRole(userId: string): AccessRole | undefined {
+    if (this.config.adminUsers.includes(userId)) {
+      return 'admin';
+    }
+    const grant = this.grants.get(userId);
+    if (grant) {
+      return grant.role;
+    }
+    if (this.config.allowedUsers.includes(userId)) {
+      return 'user';
+    }
+    return undefined;
+  }
+
+  isAdmin(userId: string): boolean {
+    return this.getRole(userId) === 'admin';
+  }
+
+  // Members of an allowlisted chat may use the bot there without being listed themselves
+  isAuthorized(userId: string, chatId?: string): boolean {
+    if (this.isOpen() || this.getRole(userId) !== undefined) {
+      return true;
+    }
+    return chatId !== undefined && this.config.allowedChats.includes(chatId);
+  }
+
+  canUseServer(userId: string, server: MCPServerConfig): boolean {
+    if (!server.allowedUsers && !server.allowedRoles) {
+      return true;
+    }
+
+    const role = this.getRole(userId) ?? 'user';
+    if (role === 'admin') {
+      return true;
+    }
+    return !!server.allowedUsers?.includes(userId) || !!server.allowedRoles?.includes(role);
+  }
+
+  // Users from the configuration keep their access whatever the grants say
+  isConfigured(userId: string): boolean {
+    return this.config.adminUsers.includes(userId) || this.config.allowedUsers.includes(userId);
+  }
+
+  getGrants(): AccessGrant[] {
+    return Array.from(this.grants.values());
+  }
+
+  async grant(userId: string, role: AccessRole, grantedBy: string): Promise<void> {
+    this.grants.set(userId, { userId, role, grantedBy, grantedAt: Date.now() });
+    logger.info(`User ${grantedBy} granted ${role} access to ${userId}`);
+    await this.save();
+  }
+
+  async revoke(userId: string): Promise<boolean> {
+    if (!this.grants.delete(userId)) {
+      return false;
+    }
+    logger.info(`Access of ${userId} revoked`);
+    await this.save();
+    return true;
+  }
+
+  // Runs before every handler: unauthorized updates stop here. Rejections are
+  // answered in the language of the user's Telegram client, with no lookups.
+  middleware(getTranslator: (languageCode?: string) => Translator): MiddlewareFn<Context> {
+    return async (ctx, next) => {
+      const userId = ctx.from?.id.toString();
+      if (userId && this.isAuthorized(userId, ctx.chat?.id.toString())) {
+        return next();
+      }
+
+      logger.warn(`Rejected update ${ctx.updateType} from user ${userId ?? 'unknown'} in chat ${ctx.chat?.id}`);
+      if (!userId) {
+        return;
+      }
+
+      const t = getTranslator(ctx.from?.language_code);
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery(t('access.denied', { userId }));
+        return;
+      }
+
+      // Answer in private chats and to commands; stay quiet about group chatter
+      const text = ctx.message && 'text' in ctx.message ? ctx.message.text : undefined;
+      if (ctx.chat?.type === 'private' || text?.startsWith('/')) {
+        await ctx.reply(t('access.denied', { userId }));
+      }
+    };
+  }
+
+  private async save(): Promise<void> {
+    this.writing = this.writing.then(() => this.write());
+    await this.writing;
+  }
+
+  private async write(): Promise<void> {
+    try {
+      mkdirSync(dirname(this.config.grantsPath), { recursive: true });
+      const tempPath = `${this.config.grantsPath}.tmp`;
+      const data = JSON.stringify({ grants: this.getGrants() }, null, 2);
+      await writeFile(tempPath, data, 'utf-8');
+      await rename(tempPath, this.config.grantsPath);
+    } catch (error) {
+      logger.error(`Failed to write access grants to ${this.config.grantsPath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { Markup, type Telegraf, type Telegram } from 'telegraf';
+import { randomBytes } from 'crypto';
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPTool } from '../types/index.js';
+import type { MessageKey, Translator } from '../i18n/index.js';
+import logger from '../utils/logger.js';
+
+export type ApprovalAnswer = 'approve' | 'deny' | 'always' | 'timeout' | 'cancelled';
+
+interface PendingApproval {
+  userId: string;
+  chatId: number | string;
+  messageId: number;
+  text: string;
+  t: Translator;
+  timer: NodeJS.Timeout;
+  // Removes the abort listener of the run that asked
+  detach: () => void;
+  resolve: (answer: ApprovalAnswer) => void;
+}
+
+const ANSWER_LABELS: Record<ApprovalAnswer, MessageKey> = {
+  approve: 'approval.approved',
+  deny: 'approval.denied',
+  always: 'approval.alwaysApproved',
+  timeout: 'approval.timedOut',
+  cancelled: 'approval.cancelled',
+};
+
+/**
+ * Asks a user to approve a tool call or a server's sampling request with an
+ * inline keyboard and waits for the button press. Unanswered requests are
+ * denied after APPROVAL_TIMEOUT, and those of a run that is cancelled right away.
+ */
+export class ApprovalManager {
+  private telegram: Telegram;
+  private getTranslator: (userId: string, languageCode?: string) => Translator;
+  private pending: Map<string, PendingApproval> = new Map();
+  private readonly APPROVAL_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+  private readonly MAX_ARGS_LENGTH = 3000;
+
+  constructor(telegram: Telegram, getTranslator: (userId: string, languageCode?: string) => Translator) {
+    this.telegram = telegram;
+    this.getTranslator = getTranslator;
+  }
+
+  register(bot: Telegraf<any>): void {
+    bot.action(/^approval:([a-f0-9]+):(approve|deny|always)$/, async (ctx) => {
+      const [, id, answer] = ctx.match;
+      const approval = this.pending.get(id);
+      const t = this.getTranslator(ctx.from.id.toString(), ctx.from.language_code);
+
+      if (!approval) {
+        await ctx.answerCbQuery(t('approval.inactive'));
+        return;
+      }
+      if (ctx.from.id.toString() !== approval.userId) {
+        await ctx.answerCbQuery(t('approval.notYours'));
+        return;
+      }
+
+      await ctx.answerCbQuery();
+      await this.settle(id, answer as ApprovalAnswer);
+    });
+  }
+
+  async request(
+    chatId: number | string,
+    userId: string,
+    tool: MCPTool,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ApprovalAnswer> {
+    const t = this.getTranslator(userId);
+    const text = t('approval.prompt', { tool: tool.qualifiedName, args: this.truncate(JSON.stringify(args, null, 2)) });
+    return await this.ask(chatId, userId, text, t, true, signal);
+  }
+
+  // Sampling has no "always" button: each request carries a different prompt
+  async requestSampling(
+    chatId: number | string,
+    userId: string,
+    serverName: string,
+    params: CreateMessageRequest['params'],
+    signal?: AbortSignal
+  ): Promise<ApprovalAnswer> {
+    const t = this.getTranslator(userId);
+
+    const lines = params.messages.map((message) => {
+      const blocks = Array.isArray(message.content) ? message.content : [message.content];
+      return `${message.role}: ${blocks.map((block) => (block.type === 'text' ? block.text : `[${block.type}]`)).join(' ')}`;
+    });
+    if (params.systemPrompt) {
+      lines.unshift(`system: ${params.systemPrompt}`);
+    }
+
+    const text = t('approval.sampling', {
+      server: serverName,
+      maxTokens: params.maxTokens,
+      request: this.truncate(lines.join('\n\n')),
+    });
+    return await this.ask(chatId, userId, text, t, false, signal);
+  }
+
+  private async ask(
+    chatId: number | string,
+    userId: string,
+    text: string,
+    t: Translator,
+    allowAlways: boolean,
+    signal?: AbortSignal
+  ): Promise<ApprovalAnswer> {
+    if (signal?.aborted) {
+      return 'cancelled';
+    }
+    const id = randomBytes(6).toString('hex');
+
+    const buttons = [
+      [
+        Markup.button.callback(t('approval.approve'), `approval:${id}:approve`),
+        Markup.button.callback(t('approval.deny'), `approval:${id}:deny`),
+      ],
+    ];
+    if (allowAlways) {
+      buttons.push([Markup.button.callback(t('approval.always'), `approval:${id}:always`)]);
+    }
+    const message = await this.telegram.sendMessage(chatId, text, Markup.inlineKeyboard(buttons));
+
+    return await new Promise<ApprovalAnswer>((resolve) => {
+      const timer = setTimeout(() => {
+        this.settle(id, 'timeout').catch((error) => {
+          logger.error(`Failed to expire approval ${id}:`, error);
+        });
+      }, this.APPROVAL_TIMEOUT);
+
+      const onAbort = () => {
+        this.settle(id, 'cancelled').catch((error) => {
+          logger.error(`Failed to cancel approval ${id}:`, error);
+        });
+      };
+      const detach = () => signal?.removeEventListener('abort', onAbort);
+
+      this.pending.set(id, { userId, chatId, messageId: message.message_id, text, t, timer, detach, resolve });
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.MAX_ARGS_LENGTH ? `${text.slice(0, this.MAX_ARGS_LENGTH)}\n…` : text;
+  }
+
+  private async settle(id: string, answer: ApprovalAnswer): Promise<void> {
+    const approval = this.pending.get(id);
+    if (!approval) {
+      return;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(approval.timer);
+    approval.detach();
+    approval.resolve(answer);
+
+    // Replace the buttons with the outcome so the chat keeps a record of it
+    await this.telegram
+      .editMessageText(approval.chatId, approval.messageId, undefined, `${approval.text}\n\n${approval.t(ANSWER_LABELS[answer])}`)
+      .catch((error) => logger.warn(`Failed to update approval message ${id}:`, error));
+  }
+}
@@ -0,0 +1,443 @@
+import { Markup, type Telegraf, type Telegram } from 'telegraf';
+import type { InlineKeyboardButton } from 'telegraf/types';
+import { randomBytes } from 'crypto';
+import type { ElicitRequestFormParams, ElicitResult, PrimitiveSchemaDefinition } from '@modelcontextprotocol/sdk/types.js';
+import type { MessageKey, Translator } from '../i18n/index.js';
+import logger from '../utils/logger.js';
+
+type FieldValue = string | number | boolean | string[];
+
+interface ElicitationField {
+  name: string;
+  schema: PrimitiveSchemaDefinition;
+  required: boolean;
+}
+
+interface ChoiceOption {
+  value: string;
+  label: string;
+}
+
+interface PendingElicitation {
+  userId: string;
+  chatId: number | string;
+  fields: ElicitationField[];
+  // Field being asked; -1 until the user chooses to answer
+  index: number;
+  content: Record<string, FieldValue>;
+  // Choices ticked so far in a multi-select field
+  selected: string[];
+  // The message whose buttons are live
+  messageId?: number;
+  t: Translator;
+  timer?: NodeJS.Timeout;
+  resolve: (result: ElicitResult) => void;
+}
+
+// Validation failures of typed answers, with the values their message needs
+type ValidationError = { key: MessageKey; params?: Record<string, string | number> };
+
+/**
+ * Turns a server's elicitation request into a dialog in the chat: the user
+ * answers, declines or cancels, then fills in the requested fields one by one.
+ * Choices and booleans are buttons; text and numbers are typed and checked
+ * against the schema. A dialog left alone for DIALOG_TIMEOUT is cancelled.
+ */
+export class ElicitationManager {
+  private telegram: Telegram;
+  private getTranslator: (userId: string, languageCode?: string) => Translator;
+  private pending: Map<string, PendingElicitation> = new Map();
+  private readonly DIALOG_TIMEOUT = 5 * 60 * 1000; // 5 minutes, restarted by every answer
+
+  constructor(telegram: Telegram, getTranslator: (userId: string, languageCode?: string) => Translator) {
+    this.telegram = telegram;
+    this.getTranslator = getTranslator;
+  }
+
+  register(bot: Telegraf<any>): void {
+    bot.action(/^elicit:([a-f0-9]+):(answer|decline|cancel|pick|bool|toggle|done|skip)(?::(\d+))?$/, async (ctx) => {
+      const [, id, action, value] = ctx.match;
+      const userId = ctx.from.id.toString();
+      const elicitation = this.pending.get(id);
+      const t = this.getTranslator(userId, ctx.from.language_code);
+
+      if (!elicitation || elicitation.messageId !== ctx.callbackQuery.message?.message_id) {
+        await ctx.answerCbQuery(t('elicitation.inactive'));
+        return;
+      }
+      if (elicitation.userId !== userId) {
+        await ctx.answerCbQuery(t('approval.notYours'));
+        return;
+      }
+
+      const field = elicitation.fields[elicitation.index];
+      const index = value === undefined ? -1 : parseInt(value);
+
+      switch (action) {
+        case 'answer':
+          await ctx.answerCbQuery();
+          await this.next(id, elicitation);
+          return;
+        case 'decline':
+          await ctx.answerCbQuery();
+          await this.finish(id, { action: 'decline' }, 'elicitation.declined');
+          return;
+        case 'cancel':
+          await ctx.answerCbQuery();
+          await this.finish(id, { action: 'cancel' }, 'elicitation.cancelled');
+          return;
+      }
+
+      if (!field) {
+        await ctx.answerCbQuery(t('elicitation.inactive'));
+        return;
+      }
+
+      switch (action) {
+        case 'pick': {
+          const option = getChoices(field.schema)?.[index];
+          if (option) {
+            await ctx.answerCbQuery();
+            await this.next(id, elicitation, option.value);
+          }
+          return;
+        }
+        case 'bool':
+          await ctx.answerCbQuery();
+          await this.next(id, elicitation, index === 1);
+          return;
+        case 'toggle': {
+          const option = getChoices(field.schema)?.[index];
+          if (option) {
+            const { selected } = elicitation;
+            const position = selected.indexOf(option.value);
+            if (position === -1) {
+              selected.push(option.value);
+            } else {
+              selected.splice(position, 1);
+            }
+            await ctx.answerCbQuery();
+            await ctx.editMessageReplyMarkup(this.keyboard(id, elicitation, field).reply_markup);
+          }
+          return;
+        }
+        case 'done': {
+          const error = validateSelection(field.schema, elicitation.selected);
+          if (error) {
+            await ctx.answerCbQuery(elicitation.t(error.key, error.params), { show_alert: true });
+            return;
+          }
+          await ctx.answerCbQuery();
+          await this.next(id, elicitation, [...elicitation.selected]);
+          return;
+        }
+        case 'skip':
+          if (!field.required) {
+            await ctx.answerCbQuery();
+            await this.next(id, elicitation);
+          }
+          return;
+      }
+    });
+  }
+
+  // Resolves with what the server gets back; the signal ends the dialog if the server gives up first
+  async request(
+    chatId: number | string,
+    userId: string,
+    serverName: string,
+    params: ElicitRequestFormParams,
+    signal: AbortSignal
+  ): Promise<ElicitResult> {
+    const id = randomBytes(6).toString('hex');
+    const t = this.getTranslator(userId);
+
+    const { properties, required = [] } = params.requestedSchema;
+    const fields = Object.entries(properties).map(([name, schema]) => ({
+      name,
+      schema,
+      required: required.includes(name),
+    }));
+
+    return await new Promise<ElicitResult>((resolve) => {
+      const elicitation: PendingElicitation = { userId, chatId, fields, index: -1, content: {}, selected: [], t, resolve };
+      this.pending.set(id, elicitation);
+      this.restartTimer(id, elicitation);
+
+      const onAbort = () => {
+        this.finish(id, { action: 'cancel' }, 'elicitation.expired').catch((error) => {
+          logger.error(`Failed to close elicitation ${id}:`, error);
+        });
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      const answer = fields.length > 0 ? t('elicitation.answer') : t('elicitation.accept');
+      this.send(
+        id,
+        elicitation,
+        t('elicitation.request', { server: serverName, message: params.message }),
+        Markup.inlineKeyboard([
+          [Markup.button.callback(answer, `elicit:${id}:answer`)],
+          [
+            Markup.button.callback(t('elicitation.decline'), `elicit:${id}:decline`),
+            Markup.button.callback(t('elicitation.cancel'), `elicit:${id}:cancel`),
+          ],
+        ])
+      ).catch((error) => {
+        logger.error(`Failed to send elicitation ${id}:`, error);
+        this.finish(id, { action: 'cancel' }).catch(() => undefined);
+      });
+    });
+  }
+
+  // Take a text message as the answer to the user's open dialog in this chat.
+  // Returns false when there is none, so the message is handled as a normal query.
+  handleReply(chatId: number | string, userId: string, text: string): boolean {
+    const entry = Array.from(this.pending.entries()).find(
+      ([, elicitation]) => elicitation.userId === userId && elicitation.chatId === chatId
+    );
+    if (!entry) {
+      return false;
+    }
+
+    const [id, elicitation] = entry;
+    this.answerText(id, elicitation, text.trim()).catch((error) => {
+      logger.error(`Failed to handle the answer to elicitation ${id}:`, error);
+    });
+    return true;
+  }
+
+  private async answerText(id: string, elicitation: PendingElicitation, text: string): Promise<void> {
+    const field = elicitation.fields[elicitation.index];
+    const { t } = elicitation;
+
+    if (!field || getChoices(field.schema) || field.schema.type === 'boolean') {
+      await this.telegram.sendMessage(elicitation.chatId, t('elicitation.useButtons'));
+      return;
+    }
+
+    const parsed = parseValue(field.schema, text);
+    if ('error' in parsed) {
+      this.restartTimer(id, elicitation);
+      await this.telegram.sendMessage(elicitation.chatId, t(parsed.error.key, parsed.error.params));
+      return;
+    }
+    await this.next(id, elicitation, parsed.value);
+  }
+
+  // Store the answer to the current field (if any) and ask the next one, or send the result
+  private async next(id: string, elicitation: PendingElicitation, value?: FieldValue): Promise<void> {
+    const current = elicitation.fields[elicitation.index];
+    if (current && value !== undefined) {
+      elicitation.content[current.name] = value;
+    }
+
+    await this.removeButtons(elicitation);
+    elicitation.index++;
+    elicitation.selected = [];
+
+    const field = elicitation.fields[elicitation.index];
+    if (!field) {
+      await this.finish(id, { action: 'accept', content: elicitation.content }, 'elicitation.sent');
+      return;
+    }
+
+    this.restartTimer(id, elicitation);
+    await this.send(id, elicitation, this.describe(elicitation, field), this.keyboard(id, elicitation, field));
+  }
+
+  private describe(elicitation: PendingElicitation, field: ElicitationField): string {
+    const { t } = elicitation;
+    const { schema } = field;
+
+    const lines = [
+      t('elicitation.field', {
+        step: elicitation.index + 1,
+        total: elicitation.fields.length,
+        name: schema.title || field.name,
+      }),
+    ];
+    if (schema.description) {
+      lines.push(schema.description);
+    }
+
+    if (schema.type === 'array') {
+      lines.push(t('elicitation.chooseMany'));
+    } else if (schema.type === 'number' || schema.type === 'integer') {
+      lines.push(t('elicitation.typeNumber'));
+    } else if (schema.type === 'string' && !getChoices(schema)) {
+      lines.push(t('elicitation.typeText'));
+    }
+    if (!field.required) {
+      lines.push(t('elicitation.optional'));
+    }
+
+    return lines.join('\n');
+  }
+
+  private keyboard(id: string, elicitation: PendingElicitation, field: ElicitationField) {
+    const { t } = elicitation;
+    const { schema } = field;
+    const rows: InlineKeyboardButton[][] = [];
+
+    const choices = getChoices(schema);
+    if (schema.type === 'boolean') {
+      rows.push([
+        Markup.button.callback(t('elicitation.yes'), `elicit:${id}:bool:1`),
+        Markup.button.callback(t('elicitation.no'), `elicit:${id}:bool:0`),
+      ]);
+    } else if (choices && schema.type === 'array') {
+      choices.forEach((option, index) => {
+        const mark = elicitation.selected.includes(option.value) ? '✅ ' : '';
+        rows.push([Markup.button.callback(`${mark}${option.label}`, `elicit:${id}:toggle:${index}`)]);
+      });
+      rows.push([Markup.button.callback(t('elicitation.done'), `elicit:${id}:done`)]);
+    } else if (choices) {
+      choices.forEach((option, index) => {
+        rows.push([Markup.button.callback(option.label, `elicit:${id}:pick:${index}`)]);
+      });
+    }
+
+    const last = [Markup.button.callback(t('elicitation.cancel'), `elicit:${id}:cancel`)];
+    if (!field.required) {
+      last.unshift(Markup.button.callback(t('elicitation.skip'), `elicit:${id}:skip`));
+    }
+    rows.push(last);
+
+    return Markup.inlineKeyboard(rows);
+  }
+
+  private async send(
+    id: string,
+    elicitation: PendingElicitation,
+    text: string,
+    keyboard: ReturnType<typeof Markup.inlineKeyboard>
+  ): Promise<void> {
+    const message = await this.telegram.sendMessage(elicitation.chatId, text, keyboard);
+    // The dialog may have ended while the message was on its way
+    if (this.pending.get(id) === elicitation) {
+      elicitation.messageId = message.message_id;
+    } else {
+      await this.telegram.editMessageReplyMarkup(elicitation.chatId, message.message_id, undefined, undefined).catch(() => undefined);
+    }
+  }
+
+  private restartTimer(id: string, elicitation: PendingElicitation): void {
+    clearTimeout(elicitation.timer);
+    elicitation.timer = setTimeout(() => {
+      this.finish(id, { action: 'cancel' }, 'elicitation.timedOut').catch((error) => {
+        logger.error(`Failed to expire elicitation ${id}:`, error);
+      });
+    }, this.DIALOG_TIMEOUT);
+  }
+
+  private async finish(id: string, result: ElicitResult, outcome?: MessageKey): Promise<void> {
+    const elicitation = this.pending.get(id);
+    if (!elicitation) {
+      return;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(elicitation.timer);
+    elicitation.resolve(result);
+    logger.info(`Elicitation ${id} answered with ${result.action}`);
+
+    await this.removeButtons(elicitation);
+    if (outcome) {
+      await this.telegram
+        .sendMessage(elicitation.chatId, elicitation.t(outcome))
+        .catch((error) => logger.warn(`Failed to send the outcome of elicitation ${id}:`, error));
+    }
+  }
+
+  // Answered questions keep their text but lose their buttons
+  private async removeButtons(elicitation: PendingElicitation): Promise<void> {
+    if (elicitation.messageId === undefined) {
+      return;
+    }
+    const messageId = elicitation.messageId;
+    elicitation.messageId = undefined;
+    await this.telegram
+      .editMessageReplyMarkup(elicitation.chatId, messageId, undefined, undefined)
+      .catch((error) => logger.warn(`Failed to remove the buttons of message ${messageId}:`, error));
+  }
+}
+
+// Options of single and multi-select fields, with their display names
+function getChoices(schema: PrimitiveSchemaDefinition): ChoiceOption[] | undefined {
+  if (schema.type === 'array') {
+    const { items } = schema;
+    if ('anyOf' in items) {
+      return items.anyOf.map((option) => ({ value: option.const, label: option.title }));
+    }
+    return items.enum.map((value) => ({ value, label: value }));
+  }
+  if ('oneOf' in schema) {
+    return schema.oneOf.map((option) => ({ value: option.const, label: option.title }));
+  }
+  if ('enum' in schema) {
+    const names = 'enumNames' in schema ? schema.enumNames : undefined;
+    return schema.enum.map((value, index) => ({ value, label: names?.[index] || value }));
+  }
+  return undefined;
+}
+
+function validateSelection(schema: PrimitiveSchemaDefinition, selected: string[]): ValidationError | undefined {
+  if (schema.type !== 'array') {
+    return undefined;
+  }
+  if (schema.minItems !== undefined && selected.length < schema.minItems) {
+    return { key: 'elicitation.selectMin', params: { min: schema.minItems } };
+  }
+  if (schema.maxItems !== undefined && selected.length > schema.maxItems) {
+    return { key: 'elicitation.selectMax', params: { max: schema.maxItems } };
+  }
+  return undefined;
+}
+
+// Check a typed answer against a string or number schema
+function parseValue(schema: PrimitiveSchemaDefinition, text: string): { value: FieldValue } | { error: ValidationError } {
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const value = Number(text.replace(',', '.'));
+    if (text === '' || !Number.isFinite(value)) {
+      return { error: { key: 'elicitation.invalidNumber' } };
+    }
+    if (schema.type === 'integer' && !Number.isInteger(value)) {
+      return { error: { key: 'elicitation.notInteger' } };
+    }
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      return { error: { key: 'elicitation.tooSmall', params: { min: schema.minimum } } };
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      return { error: { key: 'elicitation.tooLarge', params: { max: schema.maximum } } };
+    }
+    return { value };
+  }
+
+  if (schema.type !== 'string' || 'enum' in schema || 'oneOf' in schema) {
+    return { value: text };
+  }
+  if (schema.minLength !== undefined && text.length < schema.minLength) {
+    return { error: { key: 'elicitation.tooShort', params: { min: schema.minLength } } };
+  }
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+    return { error: { key: 'elicitation.tooLong', params: { max: schema.maxLength } } };
+  }
+  if (schema.format && !matchesFormat(schema.format, text)) {
+    return { error: { key: 'elicitation.invalidFormat', params: { format: schema.format } } };
+  }
+  return { value: text };
+}
+
+function matchesFormat(format: 'email' | 'uri' | 'date' | 'date-time', text: string): boolean {
+  switch (format) {
+    case 'email':
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text);
+    case 'uri':
+      return URL.canParse(text);
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(Date.parse(text));
+    case 'date-time':
+      return /^\d{4}-\d{2}-\d{2}T/.test(text) && !Number.isNaN(Date.parse(text));
+  }
+}
@@ -0,0 +1,109 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import logger from '../utils/logger.js';
+
+export interface Readiness {
+  ready: boolean;
+  // What each check found, e.g. `telegram: "ok"`
+  checks: Record<string, string>;
+}
+
+export interface HttpServerOptions {
+  port: number;
+  webhook?: {
+    path: string;
+    // Telegraf's webhook callback; calls next for requests that are not valid updates
+    handler: (req: IncomingMessage, res: ServerResponse, next: () => void) => Promise<void>;
+  };
+  getReadiness: () => Promise<Readiness>;
+}
+
+/**
+ * The built-in HTTP server: receives updates in webhook mode and answers the
+ * `/healthz` (the process is up) and `/readyz` (it can take traffic) probes.
+ * While draining, readiness fails and new updates are refused with 503, which
+ * makes Telegram deliver them again later, possibly to another instance.
+ */
+export class HttpServer {
+  private options: HttpServerOptions;
+  private server?: Server;
+  private draining = false;
+
+  constructor(options: HttpServerOptions) {
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error(`Failed to handle ${req.method} ${req.url}:`, error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    logger.info(`HTTP server listening on port ${this.options.port}`);
+  }
+
+  drain(): void {
+    this.draining = true;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      server.closeIdleConnections();
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const { webhook } = this.options;
+
+    if (webhook && path === webhook.path) {
+      if (this.draining) {
+        res.writeHead(503).end();
+        return;
+      }
+      await webhook.handler(req, res, () => {
+        res.writeHead(403).end();
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/healthz') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    if (req.method === 'GET' && path === '/readyz') {
+      if (this.draining) {
+        sendJson(res, 503, { ready: false, checks: { shutdown: 'draining' } });
+        return;
+      }
+      const readiness = await this.options.getReadiness();
+      sendJson(res, readiness.ready ? 200 : 503, readiness);
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not found' });
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
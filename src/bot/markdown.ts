@@ -0,0 +1,479 @@
+import type { TelegramParseMode } from '../types/index.js';
+
+export const MAX_MESSAGE_LENGTH = 4096;
+
+// One message worth of a formatted answer
+export interface TelegramText {
+  // With the markup of the parse mode
+  text: string;
+  // The same content without markup, for when Telegram rejects the markup anyway
+  plain: string;
+}
+
+type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: Inline[] }
+  | { type: 'link'; url: string; children: Inline[] };
+
+type Block = (
+  | { type: 'paragraph' | 'heading' | 'quote'; text: string }
+  | { type: 'item'; level: number; marker: string; text: string }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'rule' }
+) & {
+  // Whether a blank line separates it from the previous block
+  spaced: boolean;
+};
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_ROW = /^\s*\|/;
+const LINK_URL = /^(?:https?|tg|mailto):/i;
+const AUTOLINK = /^<((?:https?|tg|mailto):[^\s<>]+)>/i;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+// Longer delimiters are tried first
+const DELIMITERS: [string, 'bold' | 'italic' | 'strike'][] = [
+  ['**', 'bold'],
+  ['__', 'bold'],
+  ['~~', 'strike'],
+  ['*', 'italic'],
+  ['_', 'italic'],
+];
+const HTML_TAGS = { bold: ['<b>', '</b>'], italic: ['<i>', '</i>'], strike: ['<s>', '</s>'] };
+const MARKDOWN_TAGS = { bold: ['*', '*'], italic: ['_', '_'], strike: ['~', '~'] };
+
+/**
+ * Convert the model's Markdown (CommonMark with the usual extensions such as
+ * ~~strikethrough~~ and tables) into Telegram messages of at most maxLength
+ * characters. Messages are split between paragraphs, list items and code
+ * blocks; a block that is too long by itself is split on lines, then words.
+ * Every message is converted on its own, so markup never spans two of them.
+ */
+export function formatMarkdown(
+  markdown: string,
+  parseMode: TelegramParseMode,
+  maxLength: number = MAX_MESSAGE_LENGTH
+): TelegramText[] {
+  const fits = (rendered: TelegramText) => rendered.text.length <= maxLength && rendered.plain.length <= maxLength;
+
+  const messages: TelegramText[] = [];
+  let current: TelegramText | undefined;
+  for (const block of parseBlocks(markdown)) {
+    for (const [index, rendered] of renderFitting(block, parseMode, fits).entries()) {
+      const separator = index === 0 && block.spaced ? '\n\n' : '\n';
+      const joined = current && {
+        text: `${current.text}${separator}${rendered.text}`,
+        plain: `${current.plain}${separator}${rendered.plain}`,
+      };
+      if (joined && fits(joined)) {
+        current = joined;
+        continue;
+      }
+      if (current) {
+        messages.push(current);
+      }
+      current = rendered;
+    }
+  }
+  if (current) {
+    messages.push(current);
+  }
+  return messages;
+}
+
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let spaced = false;
+  let i = 0;
+
+  // Lines that start a block of their own end a paragraph, list item or table
+  const startsBlock = (line: string) =>
+    !line.trim() || FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      spaced = true;
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    const heading = HEADING.exec(line);
+    const quote = QUOTE.exec(line);
+    const item = LIST_ITEM.exec(line);
+
+    if (fence) {
+      // An unclosed fence runs to the end, as in CommonMark
+      const [, marker, language] = fence;
+      const closing = new RegExp(`^\\s*${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      const code: string[] = [];
+      for (i++; i < lines.length && !closing.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      i++;
+      blocks.push({ type: 'code', language, text: code.join('\n'), spaced });
+    } else if (heading) {
+      blocks.push({ type: 'heading', text: heading[1], spaced });
+      i++;
+    } else if (RULE.test(line)) {
+      blocks.push({ type: 'rule', spaced });
+      i++;
+    } else if (quote) {
+      const quoted: string[] = [];
+      for (let match: RegExpExecArray | null = quote; match; match = i < lines.length ? QUOTE.exec(lines[i]) : null) {
+        quoted.push(match[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', text: quoted.join('\n'), spaced });
+    } else if (item) {
+      const [, indent, marker, first] = item;
+      const text = [first];
+      for (i++; i < lines.length && !startsBlock(lines[i]); i++) {
+        text.push(lines[i].trim());
+      }
+      const bullet = /\d/.test(marker) ? marker : '•';
+      blocks.push({ type: 'item', level: Math.floor(indent.length / 2), marker: bullet, text: text.join('\n'), spaced });
+    } else if (TABLE_ROW.test(line)) {
+      // Telegram has no tables; a monospaced block keeps the columns aligned
+      const rows: string[] = [];
+      for (; i < lines.length && TABLE_ROW.test(lines[i]); i++) {
+        rows.push(lines[i].trim());
+      }
+      blocks.push({ type: 'code', language: '', text: rows.join('\n'), spaced });
+    } else {
+      const text = [line];
+      for (i++; i < lines.length && !startsBlock(lines[i]) && !TABLE_ROW.test(lines[i]); i++) {
+        text.push(lines[i]);
+      }
+      blocks.push({ type: 'paragraph', text: text.join('\n'), spaced });
+    }
+    spaced = false;
+  }
+
+  return blocks;
+}
+
+// The block as one or more messages' worth of text, split when it does not fit in one
+function renderFitting(block: Block, parseMode: TelegramParseMode, fits: (rendered: TelegramText) => boolean): TelegramText[] {
+  const rendered = renderBlock(block, parseMode);
+  if (fits(rendered) || block.type === 'rule') {
+    return [rendered];
+  }
+
+  const pieces = splitText(block.text, block.type === 'code' ? ['\n', ''] : ['\n', ' ', ''], (piece) =>
+    fits(renderBlock({ ...block, text: piece }, parseMode))
+  );
+  return pieces.map((piece, index) => {
+    // The rest of a long list item continues under its bullet
+    const part: Block = index > 0 && block.type === 'item' ? { type: 'paragraph', text: piece, spaced: false } : { ...block, text: piece };
+    return renderBlock(part, parseMode);
+  });
+}
+
+// Greedily join the parts of the text between separators, trying the next separator for parts that are too long
+function splitText(text: string, separators: string[], fits: (piece: string) => boolean): string[] {
+  const [separator, ...finer] = separators;
+  const parts = separator ? text.split(separator) : Array.from(text);
+  const pieces: string[] = [];
+  let current: string | undefined;
+
+  for (const part of parts) {
+    const candidate = current === undefined ? part : `${current}${separator}${part}`;
+    if (fits(candidate)) {
+      current = candidate;
+      continue;
+    }
+    if (current !== undefined) {
+      pieces.push(current);
+    }
+    if (fits(part) || finer.length === 0) {
+      current = part;
+    } else {
+      const split = splitText(part, finer, fits);
+      pieces.push(...split.slice(0, -1));
+      current = split[split.length - 1];
+    }
+  }
+  if (current !== undefined) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+function renderBlock(block: Block, parseMode: TelegramParseMode): TelegramText {
+  const html = parseMode === 'HTML';
+  const escape = html ? escapeHtml : escapeMarkdown;
+
+  switch (block.type) {
+    case 'rule':
+      return { text: '———', plain: '———' };
+    case 'code': {
+      if (html) {
+        const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+        return { text: `<pre><code${language}>${escapeHtml(block.text)}</code></pre>`, plain: block.text };
+      }
+      return { text: `\`\`\`${block.language}\n${escapeCode(block.text)}\n\`\`\``, plain: block.text };
+    }
+    case 'heading': {
+      const nodes = parseInline(block.text);
+      const text = renderInline(nodes, parseMode, new Set(['bold']));
+      return { text: html ? `<b>${text}</b>` : `*${text}*`, plain: renderPlain(nodes) };
+    }
+    case 'quote': {
+      const nodes = parseInline(block.text);
+      const text = renderInline(nodes, parseMode);
+      return {
+        text: html ? `<blockquote>${text}</blockquote>` : text.split('\n').map((line) => `>${line}`).join('\n'),
+        plain: renderPlain(nodes),
+      };
+    }
+    case 'item': {
+      const nodes = parseInline(block.text);
+      const indent = '  '.repeat(block.level);
+      return {
+        text: `${indent}${escape(block.marker)} ${renderInline(nodes, parseMode)}`,
+        plain: `${indent}${block.marker} ${renderPlain(nodes)}`,
+      };
+    }
+    case 'paragraph': {
+      const nodes = parseInline(block.text);
+      return { text: renderInline(nodes, parseMode), plain: renderPlain(nodes) };
+    }
+  }
+}
+
+function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  let i = 0;
+  outer: while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = findCodeSpanEnd(text, i + run.length, run);
+      if (end === -1) {
+        buffer += run;
+        i += run.length;
+        continue;
+      }
+      flush();
+      // One space on each side lets a code span start or end with a backtick
+      nodes.push({ type: 'code', text: text.slice(i + run.length, end).replace(/^ (.*) $/s, '$1') });
+      i = end + run.length;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = matchLink(text, i);
+      if (link) {
+        flush();
+        nodes.push(
+          LINK_URL.test(link.url)
+            ? { type: 'link', url: link.url, children: parseInline(link.label) }
+            : { type: 'text', text: `${link.label} (${link.url})` }
+        );
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = AUTOLINK.exec(text.slice(i));
+      if (autolink) {
+        flush();
+        nodes.push({ type: 'link', url: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    for (const [delimiter, type] of DELIMITERS) {
+      if (!text.startsWith(delimiter, i)) {
+        continue;
+      }
+      const end = findClosingDelimiter(text, i, delimiter);
+      if (end !== -1) {
+        flush();
+        nodes.push({ type, children: parseInline(text.slice(i + delimiter.length, end)) });
+        i = end + delimiter.length;
+        continue outer;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+function findCodeSpanEnd(text: string, from: number, run: string): number {
+  for (let i = text.indexOf(run, from); i !== -1; i = text.indexOf(run, i + 1)) {
+    // The closing run must be exactly as long as the opening one
+    if (text[i - 1] !== '`' && text[i + run.length] !== '`') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Where the emphasis opened at `start` closes, or -1 when it does not. Openers must be followed
+// and closers preceded by a non-space; `_` only works at word boundaries, as in CommonMark.
+function findClosingDelimiter(text: string, start: number, delimiter: string): number {
+  const char = delimiter[0];
+  const single = delimiter.length === 1;
+  const first = start + delimiter.length;
+  const isWordChar = (c: string | undefined) => c !== undefined && /[\p{L}\p{N}]/u.test(c);
+
+  if (first >= text.length || /\s/.test(text[first]) || (single && text[first] === char)) {
+    return -1;
+  }
+  if (char === '_' && isWordChar(text[start - 1])) {
+    return -1;
+  }
+
+  for (let i = first + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = /^`+/.exec(text.slice(i))![0];
+      const end = findCodeSpanEnd(text, i + run.length, run);
+      i = end === -1 ? i + run.length - 1 : end + run.length - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i) || /\s/.test(text[i - 1])) {
+      continue;
+    }
+    // A single delimiter is not closed by part of a double one, e.g. `*a **b** c*`
+    if (single && (text[i + 1] === char || text[i - 1] === char)) {
+      continue;
+    }
+    if (char === '_' && isWordChar(text[i + delimiter.length])) {
+      continue;
+    }
+    return i;
+  }
+  return -1;
+}
+
+// `[label](url "title")`, with brackets in the label and parentheses in the URL balanced
+function matchLink(text: string, start: number): { label: string; url: string; end: number } | undefined {
+  let depth = 0;
+  let labelEnd = -1;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '[') {
+      depth++;
+    } else if (text[i] === ']' && --depth === 0) {
+      labelEnd = i;
+      break;
+    }
+  }
+  if (labelEnd === -1 || text[labelEnd + 1] !== '(') {
+    return undefined;
+  }
+
+  depth = 0;
+  for (let i = labelEnd + 1; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')' && --depth === 0) {
+      const destination = text.slice(labelEnd + 2, i).trim().replace(/\s+"[^"]*"$/, '');
+      const url = destination.replace(/^<(.*)>$/, '$1');
+      if (!url || /\s/.test(url)) {
+        return undefined;
+      }
+      return { label: text.slice(start + 1, labelEnd), url, end: i + 1 };
+    }
+  }
+  return undefined;
+}
+
+// Telegram rejects an entity nested in one of the same type, so styles already applied are not repeated
+function renderInline(nodes: Inline[], parseMode: TelegramParseMode, active: Set<string> = new Set()): string {
+  const html = parseMode === 'HTML';
+
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return html ? escapeHtml(node.text) : escapeMarkdown(node.text);
+        case 'code':
+          return html ? `<code>${escapeHtml(node.text)}</code>` : `\`${escapeCode(node.text)}\``;
+        case 'link': {
+          const label = renderInline(node.children, parseMode, new Set([...active, 'link']));
+          if (active.has('link')) {
+            return label;
+          }
+          return html
+            ? `<a href="${escapeHtml(node.url).replace(/"/g, '&quot;')}">${label}</a>`
+            : `[${label}](${node.url.replace(/[)\\]/g, '\\$&')})`;
+        }
+        default: {
+          const children = renderInline(node.children, parseMode, new Set([...active, node.type]));
+          if (active.has(node.type)) {
+            return children;
+          }
+          const [open, close] = html ? HTML_TAGS[node.type] : MARKDOWN_TAGS[node.type];
+          return `${open}${children}${close}`;
+        }
+      }
+    })
+    .join('');
+}
+
+function renderPlain(nodes: Inline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'link': {
+          const label = renderPlain(node.children);
+          return label === node.url ? label : `${label} (${node.url})`;
+        }
+        default:
+          return renderPlain(node.children);
+      }
+    })
+    .join('');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Every character MarkdownV2 gives a meaning to has to be escaped in plain text
+function escapeMarkdown(text: string): string {
+  return text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+}
+
+function escapeCode(text: string): string {
+  return text.replace(/[`\\]/g, '\\$&');
+}
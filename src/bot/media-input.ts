@@ -0,0 +1,154 @@
+import type { Telegram } from 'telegraf';
+import type { PhotoSize } from 'telegraf/types';
+import { copyFile, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { MCPConnectionManager } from '../mcp/connection-manager.js';
+import type { LLMOrchestrator, ToolApprovalDecision } from '../mcp/llm-orchestrator.js';
+import type { AppConfig, MCPTool, MessageAttachment } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export interface MediaInputOptions {
+  config: AppConfig;
+  connections: MCPConnectionManager;
+  llm: LLMOrchestrator;
+  // The checks of the model's tool calls: server access, tool policy, approval and limits
+  authorizeTool: (
+    scopeId: string,
+    userId: string,
+    tool: MCPTool,
+    args: Record<string, unknown>
+  ) => Promise<ToolApprovalDecision>;
+}
+
+/**
+ * Turns what users send besides text into input for the model: downloads
+ * files from Telegram, photos as image attachments and voice or audio
+ * messages as text, through the configured transcription tool or the model.
+ */
+export class MediaInput {
+  private telegram: Telegram;
+  private options: MediaInputOptions;
+  private readonly TEMP_DIR = join(process.cwd(), 'temp');
+  // Telegram sends every photo in several sizes; larger ones cost tokens without helping the model
+  private readonly MAX_PHOTO_SIDE = 1280;
+
+  constructor(telegram: Telegram, options: MediaInputOptions) {
+    this.telegram = telegram;
+    this.options = options;
+  }
+
+  // Save a file the user sent to a local path
+  async saveFile(fileId: string, localFilePath: string): Promise<void> {
+    const { telegram } = this.options.config;
+    const file = await this.telegram.getFile(fileId);
+
+    if (telegram.useLocalApi && telegram.apiUrl) {
+      // LOCAL API MODE: file.file_path is an absolute path inside the Docker container
+      // We need to map it to the host volume path since the app runs on the host
+      if (!file.file_path) {
+        throw new Error('File path is undefined in local API mode');
+      }
+      const containerBasePath = '/var/lib/telegram-bot-api';
+      const hostBasePath = process.env.TELEGRAM_LOCAL_DATA_DIR || `${process.env.HOME}/telegram-bot-api-data`;
+      const hostFilePath = file.file_path.replace(containerBasePath, hostBasePath);
+
+      logger.info(`Local API mode - container path: ${file.file_path}`);
+      logger.info(`Local API mode - host path: ${hostFilePath}`);
+      await copyFile(hostFilePath, localFilePath);
+    } else {
+      // PUBLIC API MODE: Download file via HTTP
+      const response = await fetch(`https://api.telegram.org/file/bot${telegram.botToken}/${file.file_path}`);
+      if (!response.ok) {
+        throw new Error(`Download of ${file.file_path} failed with HTTP ${response.status}`);
+      }
+      await writeFile(localFilePath, Buffer.from(await response.arrayBuffer()));
+    }
+  }
+
+  async downloadPhoto(sizes: PhotoSize[]): Promise<MessageAttachment> {
+    const fitting = sizes.filter((size) => Math.max(size.width, size.height) <= this.MAX_PHOTO_SIDE);
+    const photo = fitting.length > 0 ? fitting[fitting.length - 1] : sizes[0];
+
+    // Telegram re-encodes every photo as JPEG
+    const data = await this.download(photo.file_id, `${photo.file_unique_id}.jpg`);
+    return { type: 'image', mimeType: 'image/jpeg', data: data.toString('base64') };
+  }
+
+  canTranscribe(): boolean {
+    return !!this.options.config.mcp.transcriptionTool || this.options.config.llm.audio;
+  }
+
+  // Returns an empty string when there is no speech
+  async transcribe(
+    scopeId: string,
+    userId: string,
+    fileId: string,
+    mimeType: string,
+    onUsage?: (totalTokens: number) => void
+  ): Promise<string> {
+    const transcriptionTool = this.options.config.mcp.transcriptionTool;
+    if (!transcriptionTool) {
+      const audio = await this.download(fileId, `${fileId}${audioExtension(mimeType)}`);
+      return await this.options.llm.transcribe(audio, mimeType, onUsage);
+    }
+
+    const { serverId, toolName } = transcriptionTool;
+    const { connections } = this.options;
+    await connections.ensureConnected(scopeId, [serverId]);
+    const tool = connections.getTools(scopeId, [serverId]).find((candidate) => candidate.name === toolName);
+    if (!tool) {
+      throw new Error(`Transcription tool ${toolName} of ${serverId} is not available`);
+    }
+
+    // The tool reads the file itself, like translate_pdf does
+    const filePath = join(this.TEMP_DIR, `${scopeId}_${fileId}${audioExtension(mimeType)}`);
+    const args = { filePath, mimeType };
+    const decision = await this.options.authorizeTool(scopeId, userId, tool, args);
+    if (!decision.approved) {
+      throw new Error(`Transcription with ${tool.qualifiedName} was not allowed: ${decision.reason}`);
+    }
+
+    await this.saveFile(fileId, filePath);
+    try {
+      const result: any = await connections.executeTool(scopeId, userId, [serverId], tool.qualifiedName, args);
+      const text = (result?.content || [])
+        .filter((item: any) => item.type === 'text')
+        .map((item: any) => item.text)
+        .join('\n')
+        .trim();
+      if (result?.isError) {
+        throw new Error(text || `${tool.qualifiedName} failed`);
+      }
+      return text;
+    } finally {
+      await rm(filePath, { force: true });
+    }
+  }
+
+  // Read a file the user sent without keeping it around
+  private async download(fileId: string, name: string): Promise<Buffer> {
+    const localFilePath = join(this.TEMP_DIR, name);
+    await this.saveFile(fileId, localFilePath);
+    try {
+      return await readFile(localFilePath);
+    } finally {
+      await rm(localFilePath, { force: true });
+    }
+  }
+}
+
+function audioExtension(mimeType: string): string {
+  switch (mimeType) {
+    case 'audio/mpeg':
+      return '.mp3';
+    case 'audio/mp4':
+    case 'audio/x-m4a':
+      return '.m4a';
+    case 'audio/wav':
+    case 'audio/x-wav':
+      return '.wav';
+    default:
+      // Voice notes are Opus in an Ogg container
+      return '.ogg';
+  }
+}
@@ -0,0 +1,201 @@
+import { Markup, type Telegraf, type Telegram } from 'telegraf';
+import { randomBytes } from 'crypto';
+import type { ToolProgress } from '../types/index.js';
+import type { Translator } from '../i18n/index.js';
+import logger from '../utils/logger.js';
+
+export interface ProgressHandle {
+  update(progress: ToolProgress): void;
+  // Removes the status message; after a cancellation it stays with the outcome
+  finish(): Promise<void>;
+}
+
+interface TrackedCall {
+  userId: string;
+  chatId: number | string;
+  label: string;
+  t: Translator;
+  onCancel: () => void;
+  progress?: ToolProgress;
+  messageId?: number;
+  lastSentText?: string;
+  lastEditAt: number;
+  showTimer?: NodeJS.Timeout;
+  editTimer?: NodeJS.Timeout;
+  sending: Promise<void>;
+  cancelled: boolean;
+  finished: boolean;
+}
+
+const BAR_WIDTH = 10;
+
+/**
+ * A status message for a running tool call, with a progress bar fed by the
+ * server's progress notifications and a Cancel button. Calls that finish
+ * within SHOW_DELAY never get a message; edits are throttled to EDIT_INTERVAL.
+ */
+export class ProgressTracker {
+  private telegram: Telegram;
+  private getTranslator: (userId: string, languageCode?: string) => Translator;
+  private calls: Map<string, TrackedCall> = new Map();
+  private readonly SHOW_DELAY = 3000;
+  private readonly EDIT_INTERVAL = 1500;
+
+  constructor(telegram: Telegram, getTranslator: (userId: string, languageCode?: string) => Translator) {
+    this.telegram = telegram;
+    this.getTranslator = getTranslator;
+  }
+
+  register(bot: Telegraf<any>): void {
+    bot.action(/^progress:([a-f0-9]+):cancel$/, async (ctx) => {
+      const [, id] = ctx.match;
+      const userId = ctx.from.id.toString();
+      const call = this.calls.get(id);
+      const t = this.getTranslator(userId, ctx.from.language_code);
+
+      if (!call || call.finished) {
+        await ctx.answerCbQuery(t('progress.inactive'));
+        return;
+      }
+      if (call.userId !== userId) {
+        await ctx.answerCbQuery(t('approval.notYours'));
+        return;
+      }
+
+      await ctx.answerCbQuery();
+      logger.info(`User ${userId} cancelled ${call.label}`);
+      call.cancelled = true;
+      call.onCancel();
+      await this.finish(id);
+    });
+  }
+
+  // onCancel runs when the user presses Cancel; it should abort the call
+  start(chatId: number | string, userId: string, label: string, onCancel: () => void): ProgressHandle {
+    const id = randomBytes(6).toString('hex');
+    const call: TrackedCall = {
+      userId,
+      chatId,
+      label,
+      t: this.getTranslator(userId),
+      onCancel,
+      lastEditAt: 0,
+      sending: Promise.resolve(),
+      cancelled: false,
+      finished: false,
+    };
+    call.showTimer = setTimeout(() => this.show(id, call), this.SHOW_DELAY);
+    this.calls.set(id, call);
+
+    return {
+      update: (progress) => {
+        call.progress = progress;
+        if (call.messageId === undefined) {
+          this.show(id, call);
+        } else {
+          this.scheduleEdit(id, call);
+        }
+      },
+      finish: () => this.finish(id),
+    };
+  }
+
+  private show(id: string, call: TrackedCall): void {
+    if (call.finished || call.showTimer === undefined) {
+      return;
+    }
+    clearTimeout(call.showTimer);
+    call.showTimer = undefined;
+
+    call.sending = call.sending.then(async () => {
+      const text = this.render(call);
+      try {
+        const message = await this.telegram.sendMessage(
+          call.chatId,
+          text,
+          Markup.inlineKeyboard([Markup.button.callback(call.t('progress.cancel'), `progress:${id}:cancel`)])
+        );
+        call.messageId = message.message_id;
+        call.lastSentText = text;
+        call.lastEditAt = Date.now();
+        // Progress that arrived while sending
+        this.scheduleEdit(id, call);
+      } catch (error) {
+        logger.warn(`Failed to send the progress of ${call.label}:`, error);
+      }
+    });
+  }
+
+  private scheduleEdit(id: string, call: TrackedCall): void {
+    if (call.finished || call.editTimer || call.messageId === undefined) {
+      return;
+    }
+
+    const wait = Math.max(0, call.lastEditAt + this.EDIT_INTERVAL - Date.now());
+    call.editTimer = setTimeout(() => {
+      call.editTimer = undefined;
+      call.sending = call.sending.then(() => this.flush(id, call));
+    }, wait);
+  }
+
+  private async flush(id: string, call: TrackedCall): Promise<void> {
+    const text = this.render(call);
+    if (call.finished || call.messageId === undefined || text === call.lastSentText) {
+      return;
+    }
+
+    try {
+      await this.telegram.editMessageText(
+        call.chatId,
+        call.messageId,
+        undefined,
+        text,
+        Markup.inlineKeyboard([Markup.button.callback(call.t('progress.cancel'), `progress:${id}:cancel`)])
+      );
+      call.lastSentText = text;
+    } catch (error) {
+      logger.warn(`Failed to update the progress of ${call.label}:`, error);
+    } finally {
+      call.lastEditAt = Date.now();
+    }
+  }
+
+  private render(call: TrackedCall): string {
+    const { t, progress } = call;
+    const lines = [t('progress.running', { tool: call.label })];
+
+    if (progress && progress.total && progress.total > 0) {
+      const ratio = Math.min(1, Math.max(0, progress.progress / progress.total));
+      const filled = Math.round(ratio * BAR_WIDTH);
+      lines.push(`${'▓'.repeat(filled)}${'░'.repeat(BAR_WIDTH - filled)} ${Math.round(ratio * 100)}%`);
+    } else if (progress) {
+      lines.push(t('progress.steps', { progress: progress.progress }));
+    }
+    if (progress?.message) {
+      lines.push(progress.message);
+    }
+
+    return lines.join('\n');
+  }
+
+  private async finish(id: string): Promise<void> {
+    const call = this.calls.get(id);
+    if (!call || call.finished) {
+      return;
+    }
+
+    call.finished = true;
+    this.calls.delete(id);
+    clearTimeout(call.showTimer);
+    clearTimeout(call.editTimer);
+    await call.sending;
+
+    if (call.messageId === undefined) {
+      return;
+    }
+    const request = call.cancelled
+      ? this.telegram.editMessageText(call.chatId, call.messageId, undefined, call.t('progress.cancelled', { tool: call.label }))
+      : this.telegram.deleteMessage(call.chatId, call.messageId);
+    await request.catch((error) => logger.warn(`Failed to close the progress of ${call.label}:`, error));
+  }
+}
@@ -0,0 +1,256 @@
+import { Markup, type Telegraf, type Telegram } from 'telegraf';
+import type { GetPromptResult, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPConnectionManager } from '../mcp/connection-manager.js';
+import type { ConversationMessage, MCPPrompt } from '../types/index.js';
+import type { MessageKey, Translator } from '../i18n/index.js';
+import logger from '../utils/logger.js';
+
+export interface PromptRunnerOptions {
+  connections: MCPConnectionManager;
+  getTranslator: (userId: string, languageCode?: string) => Translator;
+  // Active servers of the chat (the scope) that the user is allowed to use
+  getServers: (scopeId: string, userId: string) => string[];
+}
+
+// A prompt waiting for the user to type its missing arguments, one per message
+interface PromptDialog {
+  chatId: number | string;
+  prompt: MCPPrompt;
+  values: Record<string, string>;
+  missing: string[];
+  messageId?: number;
+  t: Translator;
+  timer: NodeJS.Timeout;
+  resolve: (values: Record<string, string> | undefined) => void;
+}
+
+/**
+ * Lists the prompt templates of the user's MCP servers and fills them in.
+ * Arguments can be given inline as `name=value`; required ones that are
+ * missing are asked for in a short dialog, which is cancelled by its button
+ * or when the user does not answer within DIALOG_TIMEOUT.
+ */
+export class PromptRunner {
+  private telegram: Telegram;
+  private options: PromptRunnerOptions;
+  private dialogs: Map<string, PromptDialog> = new Map();
+  private readonly DIALOG_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+
+  constructor(telegram: Telegram, options: PromptRunnerOptions) {
+    this.telegram = telegram;
+    this.options = options;
+  }
+
+  register(bot: Telegraf<any>): void {
+    bot.action(/^prompt:cancel$/, async (ctx) => {
+      const userId = ctx.from.id.toString();
+      const t = this.options.getTranslator(userId, ctx.from.language_code);
+      const dialog = this.dialogs.get(userId);
+
+      if (!dialog || dialog.messageId !== ctx.callbackQuery.message?.message_id) {
+        await ctx.answerCbQuery(t('prompts.inactive'));
+        return;
+      }
+
+      await ctx.answerCbQuery();
+      await this.close(userId, 'prompts.cancelled');
+    });
+  }
+
+  // Prompts of the connected servers, read on every call so connects and disconnects show up at once
+  getPrompts(scopeId: string, userId: string): MCPPrompt[] {
+    return this.options.connections.getPrompts(scopeId, this.options.getServers(scopeId, userId));
+  }
+
+  async list(chatId: number | string, userId: string, t: Translator): Promise<void> {
+    const prompts = this.getPrompts(String(chatId), userId);
+    if (prompts.length === 0) {
+      await this.telegram.sendMessage(chatId, t('prompts.none'));
+      return;
+    }
+
+    // Server ids are only needed for names that several servers share
+    const lines = prompts.map((prompt) => {
+      let line = `• ${this.commandName(prompt, prompts)}`;
+      if (prompt.description) {
+        line += ` - ${prompt.description}`;
+      }
+      if (prompt.arguments.length > 0) {
+        const args = prompt.arguments.map((arg) => (arg.required ? `${arg.name}*` : arg.name)).join(', ');
+        line += `\n   ${t('prompts.arguments', { arguments: args })}`;
+      }
+      return line;
+    });
+
+    await this.telegram.sendMessage(chatId, `${t('prompts.header', { count: prompts.length })}\n\n${lines.join('\n')}\n\n${t('prompts.usage')}`);
+  }
+
+  // Resolve `/prompt` input into the filled-in prompt messages. Returns undefined
+  // when the prompt does not exist or the dialog is cancelled; the user is told why.
+  async prepare(chatId: number | string, userId: string, input: string, t: Translator): Promise<ConversationMessage[] | undefined> {
+    const [name, ...rest] = input.trim().split(/\s+/);
+    const prompts = this.getPrompts(String(chatId), userId);
+
+    const matches = name.includes(':')
+      ? prompts.filter((prompt) => `${prompt.serverId}:${prompt.name}` === name)
+      : prompts.filter((prompt) => prompt.name === name);
+    if (matches.length === 0) {
+      await this.telegram.sendMessage(chatId, t('prompts.notFound', { name }));
+      return undefined;
+    }
+    if (matches.length > 1) {
+      const options = matches.map((prompt) => `${prompt.serverId}:${prompt.name}`).join(', ');
+      await this.telegram.sendMessage(chatId, t('prompts.ambiguous', { name, options }));
+      return undefined;
+    }
+
+    const prompt = matches[0];
+    const values = await this.collectArguments(chatId, userId, prompt, parseArguments(rest.join(' ')), t);
+    if (!values) {
+      return undefined;
+    }
+
+    logger.info(`User ${userId} running prompt ${prompt.name} of ${prompt.serverId}`);
+    const result = await this.options.connections.getPrompt(String(chatId), prompt.serverId, prompt.name, values);
+    return toConversationMessages(result);
+  }
+
+  // Take a text message as the answer to the user's open dialog. Returns false when
+  // there is none in this chat, so the message is handled as a normal query.
+  handleReply(chatId: number | string, userId: string, text: string): boolean {
+    const dialog = this.dialogs.get(userId);
+    if (!dialog || dialog.chatId !== chatId) {
+      return false;
+    }
+
+    dialog.values[dialog.missing.shift()!] = text;
+    this.advance(userId, dialog).catch((error) => {
+      logger.error(`Failed to continue prompt dialog of user ${userId}:`, error);
+    });
+    return true;
+  }
+
+  private async collectArguments(
+    chatId: number | string,
+    userId: string,
+    prompt: MCPPrompt,
+    values: Record<string, string>,
+    t: Translator
+  ): Promise<Record<string, string> | undefined> {
+    const missing = prompt.arguments.filter((arg) => arg.required && !values[arg.name]).map((arg) => arg.name);
+    if (missing.length === 0) {
+      return values;
+    }
+
+    // Only one dialog per user; starting another cancels the previous one
+    await this.close(userId, 'prompts.cancelled');
+
+    return await new Promise<Record<string, string> | undefined>((resolve) => {
+      const timer = setTimeout(() => {
+        this.close(userId, 'prompts.timedOut').catch((error) => {
+          logger.error(`Failed to expire prompt dialog of user ${userId}:`, error);
+        });
+      }, this.DIALOG_TIMEOUT);
+
+      const dialog: PromptDialog = { chatId, prompt, values, missing, t, timer, resolve };
+      this.dialogs.set(userId, dialog);
+      this.advance(userId, dialog).catch((error) => {
+        logger.error(`Failed to start prompt dialog of user ${userId}:`, error);
+        this.close(userId, 'prompts.cancelled').catch(() => undefined);
+      });
+    });
+  }
+
+  // Ask for the next missing argument, or finish once there are none left
+  private async advance(userId: string, dialog: PromptDialog): Promise<void> {
+    await this.removeButton(dialog);
+
+    const next = dialog.missing[0];
+    if (next === undefined) {
+      this.dialogs.delete(userId);
+      clearTimeout(dialog.timer);
+      dialog.resolve(dialog.values);
+      return;
+    }
+
+    const { t, prompt } = dialog;
+    const argument = prompt.arguments.find((arg) => arg.name === next);
+    let text = t('prompts.ask', { prompt: prompt.name, argument: next });
+    if (argument?.description) {
+      text += `\n${argument.description}`;
+    }
+
+    const message = await this.telegram.sendMessage(
+      dialog.chatId,
+      text,
+      Markup.inlineKeyboard([Markup.button.callback(t('prompts.cancel'), 'prompt:cancel')])
+    );
+    dialog.messageId = message.message_id;
+  }
+
+  private async close(userId: string, reason: MessageKey): Promise<void> {
+    const dialog = this.dialogs.get(userId);
+    if (!dialog) {
+      return;
+    }
+
+    this.dialogs.delete(userId);
+    clearTimeout(dialog.timer);
+    dialog.resolve(undefined);
+
+    await this.removeButton(dialog);
+    await this.telegram
+      .sendMessage(dialog.chatId, dialog.t(reason, { name: dialog.prompt.name }))
+      .catch((error) => logger.warn(`Failed to tell user ${userId} the prompt ended:`, error));
+  }
+
+  // Questions that were answered keep their text but lose the cancel button
+  private async removeButton(dialog: PromptDialog): Promise<void> {
+    if (dialog.messageId === undefined) {
+      return;
+    }
+    const messageId = dialog.messageId;
+    dialog.messageId = undefined;
+    await this.telegram
+      .editMessageReplyMarkup(dialog.chatId, messageId, undefined, undefined)
+      .catch((error) => logger.warn(`Failed to remove the buttons of message ${messageId}:`, error));
+  }
+
+  private commandName(prompt: MCPPrompt, prompts: MCPPrompt[]): string {
+    const shared = prompts.some((other) => other !== prompt && other.name === prompt.name);
+    return shared ? `${prompt.serverId}:${prompt.name}` : prompt.name;
+  }
+}
+
+// `name=value` pairs; values with spaces go in double quotes
+function parseArguments(text: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w-]+)=(?:"([^"]*)"|(\S+))/g)) {
+    values[match[1]] = match[2] ?? match[3];
+  }
+  return values;
+}
+
+function toConversationMessages(result: GetPromptResult): ConversationMessage[] {
+  return result.messages.map((message) => ({
+    role: message.role,
+    content: contentToText(message.content),
+    timestamp: Date.now(),
+  }));
+}
+
+// The history only holds text, so anything else becomes a short note
+function contentToText(content: PromptMessage['content']): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return 'text' in content.resource
+        ? `${content.resource.uri}:\n${content.resource.text}`
+        : `[file ${content.resource.uri}]`;
+    case 'resource_link':
+      return `[resource ${content.uri}]`;
+    default:
+      return `[${content.type} (${content.mimeType})]`;
+  }
+}
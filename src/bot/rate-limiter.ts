@@ -0,0 +1,161 @@
+import type { RateLimitConfig } from '../types/index.js';
+
+export type RateLimitKind = 'messages' | 'toolCalls' | 'tokens';
+
+export type RateLimitResult = { allowed: true } | { allowed: false; kind: RateLimitKind; limit: number; retryAfterMs: number };
+
+export interface QuotaUsage {
+  used: number;
+  // 0 means unlimited
+  limit: number;
+  // When the oldest counted use leaves the window, or the daily budget resets
+  resetsInMs: number;
+}
+
+export interface QuotaStatus {
+  exempt: boolean;
+  messages: QuotaUsage;
+  toolCalls: QuotaUsage;
+  tokens: QuotaUsage;
+}
+
+interface DailyUsage {
+  day: string;
+  tokens: number;
+}
+
+/**
+ * Per-user limits on messages per minute, tool calls per hour and LLM tokens per
+ * UTC day. Messages and tool calls use a sliding window of timestamps; usage is
+ * kept in memory, so a restart starts everyone afresh.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private isExempt: (userId: string) => boolean;
+  private messages: Map<string, number[]> = new Map();
+  private toolCalls: Map<string, number[]> = new Map();
+  private tokens: Map<string, DailyUsage> = new Map();
+  private readonly MESSAGE_WINDOW = 60 * 1000; // 1 minute
+  private readonly TOOL_CALL_WINDOW = 60 * 60 * 1000; // 1 hour
+
+  constructor(config: RateLimitConfig, isExempt: (userId: string) => boolean) {
+    this.config = config;
+    this.isExempt = isExempt;
+  }
+
+  // Count an incoming message if the user is within both the message rate and the token budget
+  tryMessage(userId: string): RateLimitResult {
+    if (this.isExempt(userId)) {
+      return { allowed: true };
+    }
+
+    const tokens = this.checkTokens(userId);
+    if (!tokens.allowed) {
+      return tokens;
+    }
+    return this.tryWindow(this.messages, userId, 'messages', this.config.messagesPerMinute, this.MESSAGE_WINDOW);
+  }
+
+  tryToolCall(userId: string): RateLimitResult {
+    if (this.isExempt(userId)) {
+      return { allowed: true };
+    }
+    return this.tryWindow(this.toolCalls, userId, 'toolCalls', this.config.toolCallsPerHour, this.TOOL_CALL_WINDOW);
+  }
+
+  addTokens(userId: string, tokens: number): void {
+    const today = this.today();
+    const usage = this.tokens.get(userId);
+    if (usage?.day === today) {
+      usage.tokens += tokens;
+    } else {
+      this.tokens.set(userId, { day: today, tokens });
+    }
+  }
+
+  // Whether the user has tokens left today, without counting anything
+  checkTokens(userId: string): RateLimitResult {
+    if (this.isExempt(userId)) {
+      return { allowed: true };
+    }
+
+    const limit = this.config.dailyTokenBudget;
+    if (limit > 0 && this.getTokensToday(userId) >= limit) {
+      return { allowed: false, kind: 'tokens', limit, retryAfterMs: this.untilTomorrow(Date.now()) };
+    }
+    return { allowed: true };
+  }
+
+  getQuota(userId: string): QuotaStatus {
+    const now = Date.now();
+    const messages = this.prune(this.messages, userId, this.MESSAGE_WINDOW, now);
+    const toolCalls = this.prune(this.toolCalls, userId, this.TOOL_CALL_WINDOW, now);
+
+    return {
+      exempt: this.isExempt(userId),
+      messages: {
+        used: messages.length,
+        limit: this.config.messagesPerMinute,
+        resetsInMs: messages.length > 0 ? messages[0] + this.MESSAGE_WINDOW - now : 0,
+      },
+      toolCalls: {
+        used: toolCalls.length,
+        limit: this.config.toolCallsPerHour,
+        resetsInMs: toolCalls.length > 0 ? toolCalls[0] + this.TOOL_CALL_WINDOW - now : 0,
+      },
+      tokens: {
+        used: this.getTokensToday(userId),
+        limit: this.config.dailyTokenBudget,
+        resetsInMs: this.untilTomorrow(now),
+      },
+    };
+  }
+
+  private tryWindow(
+    windows: Map<string, number[]>,
+    userId: string,
+    kind: RateLimitKind,
+    limit: number,
+    windowMs: number
+  ): RateLimitResult {
+    if (limit <= 0) {
+      return { allowed: true };
+    }
+
+    const now = Date.now();
+    const timestamps = this.prune(windows, userId, windowMs, now);
+    if (timestamps.length >= limit) {
+      return { allowed: false, kind, limit, retryAfterMs: timestamps[0] + windowMs - now };
+    }
+
+    timestamps.push(now);
+    windows.set(userId, timestamps);
+    return { allowed: true };
+  }
+
+  // Timestamps still inside the window, oldest first
+  private prune(windows: Map<string, number[]>, userId: string, windowMs: number, now: number): number[] {
+    const timestamps = (windows.get(userId) || []).filter((timestamp) => timestamp > now - windowMs);
+    if (timestamps.length > 0) {
+      windows.set(userId, timestamps);
+    } else {
+      windows.delete(userId);
+    }
+    return timestamps;
+  }
+
+  private getTokensToday(userId: string): number {
+    const usage = this.tokens.get(userId);
+    return usage?.day === this.today() ? usage.tokens : 0;
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private untilTomorrow(now: number): number {
+    const tomorrow = new Date(now);
+    tomorrow.setUTCHours(24, 0, 0, 0);
+    return tomorrow.getTime() - now;
+  }
+}
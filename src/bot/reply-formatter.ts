@@ -0,0 +1,73 @@
+import type { Telegram } from 'telegraf';
+import type { TelegramParseMode } from '../types/index.js';
+import { formatMarkdown, type TelegramText } from './markdown.js';
+import logger from '../utils/logger.js';
+
+export interface ReplyFormatterOptions {
+  parseMode: TelegramParseMode;
+  // Answers longer than this many characters are also sent as a .md file; 0 never does
+  fileThreshold: number;
+}
+
+/**
+ * Sends the model's Markdown answers: converted to Telegram's markup, split
+ * into messages that fit and sent again as plain text when Telegram rejects
+ * the markup anyway. Answers over the file threshold get their first message
+ * followed by the whole answer as a Markdown file instead of many messages.
+ */
+export class ReplyFormatter {
+  private telegram: Telegram;
+  private options: ReplyFormatterOptions;
+
+  constructor(telegram: Telegram, options: ReplyFormatterOptions) {
+    this.telegram = telegram;
+    this.options = options;
+  }
+
+  // Send an answer; with a messageId, that message (e.g. a placeholder) shows the first part
+  async send(chatId: number | string, markdown: string, messageId?: number): Promise<void> {
+    const { fileThreshold } = this.options;
+    const asFile = fileThreshold > 0 && markdown.length > fileThreshold;
+    const parts = formatMarkdown(markdown, this.options.parseMode);
+    const [first, ...rest] = asFile ? parts.slice(0, 1) : parts;
+    if (!first) {
+      return;
+    }
+
+    if (messageId === undefined) {
+      await this.sendPart(chatId, first);
+    } else {
+      await this.editPart(chatId, messageId, first);
+    }
+    for (const part of rest) {
+      await this.sendPart(chatId, part);
+    }
+
+    if (asFile) {
+      await this.telegram.sendDocument(chatId, { source: Buffer.from(markdown, 'utf-8'), filename: 'answer.md' });
+    }
+  }
+
+  private async sendPart(chatId: number | string, part: TelegramText): Promise<void> {
+    try {
+      await this.telegram.sendMessage(chatId, part.text, { parse_mode: this.options.parseMode });
+    } catch (error) {
+      logger.warn('Failed to send formatted reply, falling back to plain text:', error);
+      await this.telegram.sendMessage(chatId, part.plain);
+    }
+  }
+
+  private async editPart(chatId: number | string, messageId: number, part: TelegramText): Promise<void> {
+    try {
+      await this.telegram.editMessageText(chatId, messageId, undefined, part.text, { parse_mode: this.options.parseMode });
+    } catch (error) {
+      logger.warn('Failed to send formatted reply, falling back to plain text:', error);
+      await this.telegram.editMessageText(chatId, messageId, undefined, part.plain).catch((plainError) => {
+        // The message may already show exactly this text
+        if (!String(plainError?.description).includes('message is not modified')) {
+          throw plainError;
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,348 @@
+import { Markup, type Telegraf, type Telegram } from 'telegraf';
+import { randomBytes } from 'crypto';
+import type { MCPConnectionManager } from '../mcp/connection-manager.js';
+import type { SessionManager } from '../session/manager.js';
+import type { ResultRenderer } from './result-renderer.js';
+import type { ConversationMessage, MCPResource } from '../types/index.js';
+import type { Translator } from '../i18n/index.js';
+import logger from '../utils/logger.js';
+
+export interface ResourceBrowserOptions {
+  connections: MCPConnectionManager;
+  sessions: SessionManager;
+  renderer: ResultRenderer;
+  getTranslator: (userId: string, languageCode?: string) => Translator;
+  // Active servers of the chat (the scope) that the user is allowed to use
+  getServers: (scopeId: string, userId: string) => string[];
+}
+
+// Resources shown in one /resources message; buttons refer to them by index
+interface ResourceListing {
+  userId: string;
+  scopeId: string;
+  resources: MCPResource[];
+  createdAt: number;
+}
+
+/**
+ * Lists the resources of the user's MCP servers with paginated inline
+ * keyboards, reads them into the chat and keeps track of pinned resources,
+ * whose contents are added to the LLM context of every query. Servers and
+ * pins belong to the chat's scope (see scopes.ts), whose id is the chat id
+ * the methods take.
+ */
+export class ResourceBrowser {
+  private telegram: Telegram;
+  private options: ResourceBrowserOptions;
+  private listings: Map<string, ResourceListing> = new Map();
+  private readonly PAGE_SIZE = 8;
+  private readonly LISTING_TTL = 60 * 60 * 1000; // 1 hour
+  private readonly MAX_MESSAGE_TEXT = 3500;
+  private readonly MAX_PINNED_TEXT = 16000;
+
+  constructor(telegram: Telegram, options: ResourceBrowserOptions) {
+    this.telegram = telegram;
+    this.options = options;
+  }
+
+  register(bot: Telegraf<any>): void {
+    bot.action(/^res:([a-f0-9]+):(page|open|read|pin|unpin|drop):(\d+)$/, async (ctx) => {
+      const [, listingId, action, value] = ctx.match;
+      const userId = ctx.from.id.toString();
+      const t = this.options.getTranslator(userId, ctx.from.language_code);
+      const listing = this.listings.get(listingId);
+
+      if (!listing || listing.userId !== userId) {
+        await ctx.answerCbQuery(t('resources.expired'));
+        return;
+      }
+
+      const index = parseInt(value);
+      if (action === 'page') {
+        await ctx.answerCbQuery();
+        const { text, keyboard } = this.renderPage(listingId, listing, index, t);
+        await ctx.editMessageText(text, keyboard);
+        return;
+      }
+
+      const resource = listing.resources[index];
+      if (!resource) {
+        await ctx.answerCbQuery(t('resources.expired'));
+        return;
+      }
+
+      const { scopeId } = listing;
+      switch (action) {
+        case 'open':
+          await ctx.answerCbQuery();
+          await ctx.reply(this.describe(resource, t), this.resourceKeyboard(listingId, index, scopeId, resource, t));
+          break;
+        case 'read':
+          await ctx.answerCbQuery();
+          await this.send(scopeId, resource, t);
+          break;
+        case 'pin':
+          this.options.sessions.pinResource(scopeId, { serverId: resource.serverId, uri: resource.uri, name: resource.name });
+          await ctx.answerCbQuery(t('resources.pinned', { name: resource.name }));
+          await ctx.editMessageReplyMarkup(this.resourceKeyboard(listingId, index, scopeId, resource, t).reply_markup);
+          break;
+        case 'unpin':
+          this.options.sessions.unpinResource(scopeId, resource.uri);
+          await ctx.answerCbQuery(t('resources.unpinned', { name: resource.name }));
+          await ctx.editMessageReplyMarkup(this.resourceKeyboard(listingId, index, scopeId, resource, t).reply_markup);
+          break;
+        case 'drop':
+          // From the list of pinned resources: take the button away
+          this.options.sessions.unpinResource(scopeId, resource.uri);
+          await ctx.answerCbQuery(t('resources.unpinned', { name: resource.name }));
+          await ctx.editMessageReplyMarkup(this.pinnedKeyboard(listingId, listing).reply_markup);
+          break;
+      }
+    });
+  }
+
+  // Post the first page of the resources of one server, or of all the user's servers
+  async list(chatId: number | string, userId: string, t: Translator, serverId?: string): Promise<void> {
+    const scopeId = String(chatId);
+    const servers = this.options.getServers(scopeId, userId);
+    if (serverId && !servers.includes(serverId)) {
+      await this.telegram.sendMessage(chatId, t('resources.unknownServer', { serverId }));
+      return;
+    }
+
+    const resources = await this.collect(scopeId, serverId ? [serverId] : servers);
+    if (resources.length === 0) {
+      await this.telegram.sendMessage(chatId, t('resources.none'));
+      return;
+    }
+
+    const listingId = this.createListing(userId, scopeId, resources);
+    const { text, keyboard } = this.renderPage(listingId, this.listings.get(listingId)!, 0, t);
+    await this.telegram.sendMessage(chatId, text, keyboard);
+  }
+
+  // Show or send a resource by URI, looking up the server that has it
+  async read(chatId: number | string, userId: string, uri: string, t: Translator): Promise<void> {
+    const resource = await this.find(String(chatId), userId, uri);
+    if (!resource) {
+      await this.telegram.sendMessage(chatId, t('resources.notFound', { uri }));
+      return;
+    }
+    await this.send(String(chatId), resource, t);
+  }
+
+  async pin(chatId: number | string, userId: string, uri: string, t: Translator): Promise<void> {
+    const resource = await this.find(String(chatId), userId, uri);
+    if (!resource) {
+      await this.telegram.sendMessage(chatId, t('resources.notFound', { uri }));
+      return;
+    }
+
+    const pinned = this.options.sessions.pinResource(String(chatId), {
+      serverId: resource.serverId,
+      uri: resource.uri,
+      name: resource.name,
+    });
+    await this.telegram.sendMessage(
+      chatId,
+      pinned ? t('resources.pinned', { name: resource.name }) : t('resources.alreadyPinned', { name: resource.name })
+    );
+  }
+
+  // Without a URI, list the pinned resources with a button to unpin each
+  async unpin(chatId: number | string, userId: string, t: Translator, uri?: string): Promise<void> {
+    const scopeId = String(chatId);
+    if (uri) {
+      const unpinned = this.options.sessions.unpinResource(scopeId, uri);
+      await this.telegram.sendMessage(chatId, unpinned ? t('resources.unpinned', { name: uri }) : t('resources.notPinned', { uri }));
+      return;
+    }
+
+    const pinned = this.options.sessions.getPinnedResources(scopeId);
+    if (pinned.length === 0) {
+      await this.telegram.sendMessage(chatId, t('resources.nonePinned'));
+      return;
+    }
+
+    const listingId = this.createListing(userId, scopeId, pinned.map((resource) => ({ ...resource })));
+    await this.telegram.sendMessage(
+      chatId,
+      `${t('resources.pinnedHeader', { count: pinned.length })}\n\n${pinned.map((p) => `📌 ${p.name}\n${p.uri}`).join('\n\n')}`,
+      this.pinnedKeyboard(listingId, this.listings.get(listingId)!)
+    );
+  }
+
+  // System messages carrying the current contents of the resources pinned in the scope
+  async getPinnedContext(scopeId: string, userId: string): Promise<ConversationMessage[]> {
+    const servers = this.options.getServers(scopeId, userId);
+    const messages: ConversationMessage[] = [];
+
+    for (const pinned of this.options.sessions.getPinnedResources(scopeId)) {
+      if (!servers.includes(pinned.serverId)) {
+        logger.info(`Skipping pinned resource ${pinned.uri}: ${pinned.serverId} is not active for ${userId} in ${scopeId}`);
+        continue;
+      }
+
+      let text: string;
+      try {
+        const result = await this.options.connections.readResource(scopeId, pinned.serverId, pinned.uri);
+        text = result.contents
+          .map((content) => ('text' in content ? content.text : `[binary content, ${content.mimeType || 'unknown type'}]`))
+          .join('\n\n');
+      } catch (error) {
+        logger.warn(`Failed to read pinned resource ${pinned.uri}:`, error);
+        text = `[could not be read: ${error instanceof Error ? error.message : String(error)}]`;
+      }
+
+      if (text.length > this.MAX_PINNED_TEXT) {
+        text = `${text.slice(0, this.MAX_PINNED_TEXT)}\n…[truncated]`;
+      }
+
+      messages.push({
+        role: 'system',
+        content: `The user pinned the resource "${pinned.name}" (${pinned.uri}) from ${pinned.serverId}. Its current contents:\n\n${text}`,
+        timestamp: Date.now(),
+      });
+    }
+
+    return messages;
+  }
+
+  private async collect(scopeId: string, serverIds: string[]): Promise<MCPResource[]> {
+    await this.options.connections.ensureConnected(scopeId, serverIds);
+
+    const resources: MCPResource[] = [];
+    for (const serverId of serverIds) {
+      if (!this.options.connections.isConnected(scopeId, serverId)) {
+        continue;
+      }
+      try {
+        resources.push(...(await this.options.connections.listResources(scopeId, serverId)));
+      } catch (error) {
+        logger.error(`Failed to list resources of ${serverId}:`, error);
+      }
+    }
+    return resources;
+  }
+
+  // Listed resources first; otherwise ask each server, for URIs that come from templates
+  private async find(scopeId: string, userId: string, uri: string): Promise<MCPResource | undefined> {
+    const servers = this.options.getServers(scopeId, userId);
+    const listed = (await this.collect(scopeId, servers)).find((resource) => resource.uri === uri);
+    if (listed) {
+      return listed;
+    }
+
+    for (const serverId of servers) {
+      if (!this.options.connections.isConnected(scopeId, serverId)) {
+        continue;
+      }
+      try {
+        await this.options.connections.readResource(scopeId, serverId, uri);
+        return { uri, name: uri, serverId };
+      } catch (error) {
+        // Not a resource of this server
+      }
+    }
+    return undefined;
+  }
+
+  // Short texts are shown in the chat, everything else is sent as a file
+  // The scope id is also the chat to send to
+  private async send(chatId: string, resource: MCPResource, t: Translator): Promise<void> {
+    const result = await this.options.connections.readResource(chatId, resource.serverId, resource.uri);
+    if (result.contents.length === 0) {
+      await this.telegram.sendMessage(chatId, t('resources.empty', { uri: resource.uri }));
+      return;
+    }
+
+    for (const content of result.contents) {
+      if ('text' in content && content.text.length <= this.MAX_MESSAGE_TEXT) {
+        await this.telegram.sendMessage(chatId, `📄 ${resource.name}\n\n${content.text}`);
+      } else {
+        await this.options.renderer.render(chatId, { content: [{ type: 'resource', resource: content }] });
+      }
+    }
+  }
+
+  private createListing(userId: string, scopeId: string, resources: MCPResource[]): string {
+    // Drop listings nobody will page through any more
+    const cutoff = Date.now() - this.LISTING_TTL;
+    for (const [id, listing] of this.listings) {
+      if (listing.createdAt < cutoff) {
+        this.listings.delete(id);
+      }
+    }
+
+    const id = randomBytes(4).toString('hex');
+    this.listings.set(id, { userId, scopeId, resources, createdAt: Date.now() });
+    return id;
+  }
+
+  private renderPage(listingId: string, listing: ResourceListing, page: number, t: Translator) {
+    const pages = Math.max(1, Math.ceil(listing.resources.length / this.PAGE_SIZE));
+    const current = Math.min(Math.max(page, 0), pages - 1);
+    const start = current * this.PAGE_SIZE;
+    const pinned = new Set(this.options.sessions.getPinnedResources(listing.scopeId).map((p) => p.uri));
+
+    const lines = listing.resources.slice(start, start + this.PAGE_SIZE).map((resource, offset) => {
+      const mark = pinned.has(resource.uri) ? ' 📌' : '';
+      return `${start + offset + 1}. ${resource.name}${mark} (${resource.serverId})\n   ${resource.uri}`;
+    });
+
+    const text = `${t('resources.header', { count: listing.resources.length, page: current + 1, pages })}\n\n${lines.join('\n')}`;
+
+    const buttons = listing.resources
+      .slice(start, start + this.PAGE_SIZE)
+      .map((resource, offset) => [
+        Markup.button.callback(`${start + offset + 1}. ${resource.name}`.slice(0, 60), `res:${listingId}:open:${start + offset}`),
+      ]);
+
+    const navigation = [];
+    if (current > 0) {
+      navigation.push(Markup.button.callback('◀️', `res:${listingId}:page:${current - 1}`));
+    }
+    if (current < pages - 1) {
+      navigation.push(Markup.button.callback('▶️', `res:${listingId}:page:${current + 1}`));
+    }
+    if (navigation.length > 0) {
+      buttons.push(navigation);
+    }
+
+    return { text, keyboard: Markup.inlineKeyboard(buttons) };
+  }
+
+  private describe(resource: MCPResource, t: Translator): string {
+    const lines = [`📄 ${resource.name}`, resource.uri, t('resources.server', { serverId: resource.serverId })];
+    if (resource.mimeType) {
+      lines.push(t('resources.type', { mimeType: resource.mimeType }));
+    }
+    if (resource.description) {
+      lines.push('', resource.description);
+    }
+    return lines.join('\n');
+  }
+
+  // One unpin button for each resource of the listing that is still pinned
+  private pinnedKeyboard(listingId: string, listing: ResourceListing) {
+    const pinned = new Set(this.options.sessions.getPinnedResources(listing.scopeId).map((p) => p.uri));
+    return Markup.inlineKeyboard(
+      listing.resources.flatMap((resource, index) =>
+        pinned.has(resource.uri) ? [[Markup.button.callback(`✖️ ${resource.name}`.slice(0, 60), `res:${listingId}:drop:${index}`)]] : []
+      )
+    );
+  }
+
+  private resourceKeyboard(listingId: string, index: number, scopeId: string, resource: MCPResource, t: Translator) {
+    const isPinned = this.options.sessions
+      .getPinnedResources(scopeId)
+      .some((pinned) => pinned.uri === resource.uri && pinned.serverId === resource.serverId);
+
+    return Markup.inlineKeyboard([
+      Markup.button.callback(t('resources.read'), `res:${listingId}:read:${index}`),
+      isPinned
+        ? Markup.button.callback(t('resources.unpin'), `res:${listingId}:unpin:${index}`)
+        : Markup.button.callback(t('resources.pin'), `res:${listingId}:pin:${index}`),
+    ]);
+  }
+}
@@ -0,0 +1,214 @@
+import type { Telegram } from 'telegraf';
+import type { ContentBlock } from '@modelcontextprotocol/sdk/types.js';
+import { existsSync, realpathSync, statSync } from 'fs';
+import { basename, extname, isAbsolute, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import logger from '../utils/logger.js';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/ogg': '.ogg',
+  'audio/wav': '.wav',
+  'audio/webm': '.webm',
+  'application/pdf': '.pdf',
+  'application/json': '.json',
+  'application/zip': '.zip',
+  'text/plain': '.txt',
+  'text/markdown': '.md',
+  'text/html': '.html',
+  'text/csv': '.csv',
+};
+
+// Formats Telegram shows inline; anything else goes out as a document
+const PHOTO_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const AUDIO_TYPES = ['audio/mpeg', 'audio/mp4', 'audio/ogg'];
+
+/**
+ * Sends the non-text parts of a tool result to the chat: images as photos,
+ * audio as audio, embedded resources and anything else as documents. Files on
+ * disk are only sent from the configured directories.
+ */
+export class ResultRenderer {
+  private telegram: Telegram;
+  private allowedDirs: string[];
+  private readonly MAX_PHOTO_SIZE = 10 * 1024 * 1024; // Bot API limit for photos
+  private readonly MAX_UPLOAD_SIZE = 50 * 1024 * 1024; // Bot API limit for other files
+
+  constructor(telegram: Telegram, allowedDirs: string[]) {
+    this.telegram = telegram;
+    this.allowedDirs = allowedDirs.map((dir) => resolve(dir));
+  }
+
+  // Returns how many attachments were sent
+  async render(chatId: number | string, result: unknown): Promise<number> {
+    let sent = 0;
+    for (const item of getContent(result)) {
+      try {
+        if (await this.renderItem(chatId, item)) {
+          sent++;
+        }
+      } catch (error) {
+        logger.error(`Failed to send ${item.type} content to chat ${chatId}:`, error);
+      }
+    }
+    return sent;
+  }
+
+  // A copy of the result for the model, with binary data replaced by a short note
+  describeForModel(result: unknown): unknown {
+    const content = getContent(result);
+    if (!content.some((item) => item.type === 'image' || item.type === 'audio' || item.type === 'resource')) {
+      return result;
+    }
+
+    return {
+      ...(result as object),
+      content: content.map((item) => {
+        switch (item.type) {
+          case 'image':
+          case 'audio':
+            return { type: 'text', text: `[${item.type} (${item.mimeType}) sent to the user]` };
+          case 'resource':
+            if ('blob' in item.resource) {
+              return { type: 'text', text: `[file ${item.resource.uri} sent to the user]` };
+            }
+            return item;
+          default:
+            return item;
+        }
+      }),
+    };
+  }
+
+  private async renderItem(chatId: number | string, item: ContentBlock): Promise<boolean> {
+    switch (item.type) {
+      case 'image':
+      case 'audio': {
+        const data = Buffer.from(item.data, 'base64');
+        return await this.sendBuffer(chatId, data, item.mimeType, `${item.type}${extensionFor(item.mimeType)}`);
+      }
+      case 'resource': {
+        const { resource } = item;
+        const data = 'blob' in resource ? Buffer.from(resource.blob, 'base64') : Buffer.from(resource.text, 'utf-8');
+        const mimeType = resource.mimeType || ('blob' in resource ? 'application/octet-stream' : 'text/plain');
+        return await this.sendDocument(chatId, data, fileNameFor(resource.uri, mimeType));
+      }
+      case 'resource_link':
+        return await this.sendLocalFile(chatId, item.uri);
+      case 'text':
+        return await this.sendReportedFile(chatId, item.text);
+      default:
+        return false;
+    }
+  }
+
+  private async sendBuffer(chatId: number | string, data: Buffer, mimeType: string, filename: string): Promise<boolean> {
+    if (PHOTO_TYPES.includes(mimeType) && data.length <= this.MAX_PHOTO_SIZE) {
+      await this.telegram.sendPhoto(chatId, { source: data, filename });
+      return true;
+    }
+    if (mimeType === 'image/gif' && data.length <= this.MAX_UPLOAD_SIZE) {
+      await this.telegram.sendAnimation(chatId, { source: data, filename });
+      return true;
+    }
+    if (AUDIO_TYPES.includes(mimeType) && data.length <= this.MAX_UPLOAD_SIZE) {
+      await this.telegram.sendAudio(chatId, { source: data, filename });
+      return true;
+    }
+    return await this.sendDocument(chatId, data, filename);
+  }
+
+  private async sendDocument(chatId: number | string, data: Buffer, filename: string): Promise<boolean> {
+    if (data.length > this.MAX_UPLOAD_SIZE) {
+      logger.warn(`Not sending ${filename}: ${data.length} bytes is over the upload limit`);
+      return false;
+    }
+    await this.telegram.sendDocument(chatId, { source: data, filename });
+    return true;
+  }
+
+  // Older tools report files they wrote as JSON text with a `translatedFile` path
+  private async sendReportedFile(chatId: number | string, text: string): Promise<boolean> {
+    try {
+      const data = JSON.parse(text);
+      if (data && typeof data.translatedFile === 'string') {
+        return await this.sendLocalFile(chatId, data.translatedFile);
+      }
+    } catch (err) {
+      // Not JSON, nothing to send
+    }
+    return false;
+  }
+
+  private async sendLocalFile(chatId: number | string, uriOrPath: string): Promise<boolean> {
+    let path: string;
+    if (uriOrPath.startsWith('file://')) {
+      path = fileURLToPath(uriOrPath);
+    } else if (isAbsolute(uriOrPath) || !uriOrPath.includes('://')) {
+      path = resolve(uriOrPath);
+    } else {
+      // Remote resources are left to the model to mention
+      return false;
+    }
+
+    if (!existsSync(path)) {
+      logger.warn(`Not sending ${path}: file does not exist`);
+      return false;
+    }
+    if (!this.isAllowed(path)) {
+      logger.warn(`Not sending ${path}: outside the allowed directories`);
+      return false;
+    }
+
+    const size = statSync(path).size;
+    if (size > this.MAX_UPLOAD_SIZE) {
+      logger.warn(`Not sending ${path}: ${size} bytes is over the upload limit`);
+      return false;
+    }
+
+    logger.info(`Sending file: ${path}`);
+    await this.telegram.sendDocument(chatId, { source: path, filename: basename(path) });
+    return true;
+  }
+
+  // Symlinks are resolved first so they cannot point out of an allowed directory
+  private isAllowed(path: string): boolean {
+    const realPath = realpathSync(path);
+    return this.allowedDirs.some((dir) => {
+      if (!existsSync(dir)) {
+        return false;
+      }
+      const fromDir = relative(realpathSync(dir), realPath);
+      return fromDir !== '' && !fromDir.startsWith('..') && !isAbsolute(fromDir);
+    });
+  }
+}
+
+function getContent(result: unknown): ContentBlock[] {
+  const content = (result as { content?: unknown } | null)?.content;
+  return Array.isArray(content) ? content : [];
+}
+
+function extensionFor(mimeType: string): string {
+  return EXTENSIONS[mimeType.split(';')[0].trim()] || '';
+}
+
+// Name a file after the last segment of its URI, adding an extension that matches its MIME type
+function fileNameFor(uri: string, mimeType: string): string {
+  let name = '';
+  try {
+    name = basename(decodeURIComponent(new URL(uri).pathname));
+  } catch (err) {
+    name = basename(uri);
+  }
+  name = name.replace(/[^\w.\-]+/g, '_') || 'resource';
+
+  const extension = extensionFor(mimeType);
+  return extension && extname(name) === '' ? `${name}${extension}` : name;
+}
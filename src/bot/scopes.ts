@@ -0,0 +1,38 @@
+import type { Telegram } from 'telegraf';
+
+/**
+ * A conversation, with its session and per-user MCP connections, is scoped by
+ * where it happens: a private chat by the user's id (which is also the chat
+ * id), a group by its chat id and a forum topic by `chatId:threadId`. The
+ * scope id doubles as the chat to send messages to, see routeTopicMessages.
+ */
+export function getScopeId(chatId: number, threadId?: number): string {
+  return threadId === undefined ? chatId.toString() : `${chatId}:${threadId}`;
+}
+
+const TOPIC_SCOPE = /^(-\d+):(\d+)$/;
+
+// The chat a scope belongs to, without the forum topic
+export function getScopeChatId(scopeId: string): string {
+  return scopeId.split(':')[0];
+}
+
+/**
+ * Let every Telegram call take a topic scope as its chat id: `chatId:threadId`
+ * is split into chat_id and, for the methods that send something, the topic's
+ * message_thread_id. Everything that posts to a scope then lands in the topic.
+ */
+export function routeTopicMessages(telegram: Telegram): void {
+  const callApi = telegram.callApi.bind(telegram);
+
+  telegram.callApi = ((method: string, payload: Record<string, unknown>, options?: unknown) => {
+    const match = typeof payload?.chat_id === 'string' ? TOPIC_SCOPE.exec(payload.chat_id) : null;
+    if (match) {
+      payload = { ...payload, chat_id: Number(match[1]) };
+      if (method.startsWith('send') || method === 'copyMessage' || method === 'forwardMessage') {
+        payload.message_thread_id = Number(match[2]);
+      }
+    }
+    return (callApi as (...args: unknown[]) => Promise<unknown>)(method, payload, options);
+  }) as typeof telegram.callApi;
+}
@@ -0,0 +1,133 @@
+import type { Telegram } from 'telegraf';
+import logger from '../utils/logger.js';
+import type { Translator } from '../i18n/index.js';
+import type { ReplyFormatter } from './reply-formatter.js';
+import { MAX_MESSAGE_LENGTH } from './markdown.js';
+
+/**
+ * A reply that grows while the LLM is still working: a placeholder message is
+ * sent first and then edited as text and tool activity arrive. Edits are
+ * throttled to EDIT_INTERVAL to stay under Telegram's per-chat rate limits.
+ */
+export class StreamingReply {
+  private telegram: Telegram;
+  private chatId: number | string;
+  private t: Translator;
+  private formatter: ReplyFormatter;
+  private messageId?: number;
+  private text = '';
+  private runningTools: string[] = [];
+  private lastSentText = '';
+  private lastEditAt = 0;
+  private editTimer?: NodeJS.Timeout;
+  private editing: Promise<void> = Promise.resolve();
+  private finished = false;
+  private readonly EDIT_INTERVAL = 1500;
+
+  constructor(telegram: Telegram, chatId: number | string, t: Translator, formatter: ReplyFormatter) {
+    this.telegram = telegram;
+    this.chatId = chatId;
+    this.t = t;
+    this.formatter = formatter;
+  }
+
+  async start(placeholder = this.t('stream.thinking')): Promise<void> {
+    const message = await this.telegram.sendMessage(this.chatId, placeholder);
+    this.messageId = message.message_id;
+    this.lastSentText = placeholder;
+    this.lastEditAt = Date.now();
+  }
+
+  appendText(delta: string): void {
+    this.text += delta;
+    this.scheduleEdit();
+  }
+
+  toolStarted(toolName: string): void {
+    this.runningTools.push(toolName);
+    this.scheduleEdit();
+  }
+
+  toolFinished(toolName: string): void {
+    const index = this.runningTools.indexOf(toolName);
+    if (index !== -1) {
+      this.runningTools.splice(index, 1);
+    }
+    this.scheduleEdit();
+  }
+
+  // A new step starts after the tool results are in; drop any leftover status lines
+  stepFinished(): void {
+    if (this.runningTools.length > 0) {
+      this.runningTools = [];
+      this.scheduleEdit();
+    }
+  }
+
+  private render(): string {
+    const statusLines = this.runningTools.map((tool) => this.t('stream.callingTool', { tool })).join('\n');
+    let body = this.text.trim();
+
+    // Show the most recent part of long answers while streaming; finish() sends it all
+    const room = MAX_MESSAGE_LENGTH - statusLines.length - 10;
+    if (body.length > room) {
+      body = `…${body.slice(body.length - room)}`;
+    }
+
+    const rendered = [body, statusLines].filter(Boolean).join('\n\n');
+    return rendered || this.t('stream.thinking');
+  }
+
+  private scheduleEdit(): void {
+    if (this.finished || this.editTimer || this.messageId === undefined) {
+      return;
+    }
+
+    const wait = Math.max(0, this.lastEditAt + this.EDIT_INTERVAL - Date.now());
+    this.editTimer = setTimeout(() => {
+      this.editTimer = undefined;
+      this.editing = this.editing.then(() => this.flush());
+    }, wait);
+  }
+
+  private async flush(): Promise<void> {
+    if (this.finished || this.messageId === undefined) {
+      return;
+    }
+
+    const text = this.render();
+    if (text === this.lastSentText) {
+      return;
+    }
+
+    try {
+      await this.telegram.editMessageText(this.chatId, this.messageId, undefined, text);
+      this.lastSentText = text;
+    } catch (error: any) {
+      // Back off when Telegram asks us to and try again with whatever is newest then
+      const retryAfter = error?.response?.parameters?.retry_after;
+      if (retryAfter) {
+        logger.warn(`Telegram edit rate limited, retrying in ${retryAfter}s`);
+        this.lastEditAt = Date.now() + retryAfter * 1000;
+        this.scheduleEdit();
+        return;
+      }
+      logger.warn('Failed to update streaming reply:', error);
+    } finally {
+      this.lastEditAt = Math.max(this.lastEditAt, Date.now());
+    }
+  }
+
+  // Replace the interim content with the complete, formatted answer
+  async finish(finalText: string): Promise<void> {
+    this.finished = true;
+    if (this.editTimer) {
+      clearTimeout(this.editTimer);
+      this.editTimer = undefined;
+    }
+    await this.editing;
+
+    const text = finalText.trim() || this.text.trim() || this.t('stream.empty');
+    await this.formatter.send(this.chatId, text, this.messageId);
+  }
+}
@@ -1,19 +1,88 @@
-import { Telegraf, Context } from 'telegraf';
-import type { Update } from 'telegraf/types';
+import { Telegraf, Context, Markup } from 'telegraf';
+import type { MessageEntity, Update } from 'telegraf/types';
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequestFormParams,
+  ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
 import { createWriteStream, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
-import { MCPClient } from '../mcp/client.js';
-import { LLMOrchestrator } from '../mcp/llm-orchestrator.js';
+import { MCPConnectionManager, type ToolCaller } from '../mcp/connection-manager.js';
+import {
+  LLMOrchestrator,
+  type QueryOptions,
+  type ToolApprovalDecision,
+  type ToolApprovalHandler,
+  type ToolCallHandler,
+} from '../mcp/llm-orchestrator.js';
+import { resolveToolPolicy } from '../mcp/tool-policy.js';
+import { loadServers } from '../config/servers.js';
+import { watchServersFile } from '../config/servers-watcher.js';
 import { SessionManager } from '../session/manager.js';
-import type { AppConfig, MCPServerConfig, ConversationMessage } from '../types/index.js';
+import { createSessionStore } from '../session/store.js';
+import { JobQueue } from '../jobs/job-queue.js';
+import { AccessControl } from './access-control.js';
+import { RateLimiter, type RateLimitResult } from './rate-limiter.js';
+import { ApprovalManager } from './approval-manager.js';
+import { ElicitationManager } from './elicitation-manager.js';
+import { ProgressTracker } from './progress-tracker.js';
+import { StreamingReply } from './streaming-reply.js';
+import { ReplyFormatter } from './reply-formatter.js';
+import { ResultRenderer } from './result-renderer.js';
+import { ResourceBrowser } from './resource-browser.js';
+import { PromptRunner } from './prompt-runner.js';
+import { MediaInput } from './media-input.js';
+import { HttpServer, type Readiness } from './http-server.js';
+import { getScopeChatId, getScopeId, routeTopicMessages } from './scopes.js';
+import type {
+  AppConfig,
+  Job,
+  MCPTool,
+  MCPServerChanges,
+  MCPServerStatusEvent,
+  ConversationMessage,
+  MessageAttachment,
+} from '../types/index.js';
+import type { SystemPromptContext } from '../mcp/system-prompt.js';
+import {
+  LANGUAGES,
+  SUPPORTED_LANGUAGES,
+  createTranslator,
+  isLanguage,
+  resolveLanguage,
+  type Language,
+  type Translator,
+} from '../i18n/index.js';
+import { redact } from '../utils/secrets.js';
 import logger from '../utils/logger.js';
 
 export class TelegramBot {
   private bot: Telegraf<Context<Update>>;
-  private mcpClient: MCPClient;
+  private connections: MCPConnectionManager;
   private llmOrchestrator: LLMOrchestrator;
   private sessionManager: SessionManager;
+  private approvals: ApprovalManager;
+  private elicitations: ElicitationManager;
+  private progress: ProgressTracker;
+  private media: MediaInput;
+  private access: AccessControl;
+  private limits: RateLimiter;
+  private jobs: JobQueue;
+  private renderer: ResultRenderer;
+  private replies: ReplyFormatter;
+  private resources: ResourceBrowser;
+  private prompts: PromptRunner;
   private config: AppConfig;
+  private serversReload: Promise<unknown> = Promise.resolve();
+  private stopWatchingServers?: () => void;
+  private http?: HttpServer;
+  // Updates being handled and the work they started; shutdown waits for them
+  private inFlight: Set<Promise<void>> = new Set();
+  private telegramCheck?: { ok: boolean; checkedAt: number };
+  private stopping = false;
+  private readonly TELEGRAM_CHECK_INTERVAL = 15 * 1000;
+  private readonly TELEGRAM_CHECK_TIMEOUT = 5 * 1000;
 
   constructor(config: AppConfig) {
     this.config = config;
@@ -39,182 +108,764 @@ export class TelegramBot {
       logger.info(`Bot telegram options AFTER override:`, (this.bot.telegram as any).options);
     }
 
-    this.mcpClient = new MCPClient();
+    // Messages for a forum topic's scope go to that topic
+    routeTopicMessages(this.bot.telegram);
+
+    this.connections = new MCPConnectionManager(config.mcp.servers, config.mcp.toolTimeoutSeconds);
     this.llmOrchestrator = new LLMOrchestrator(config.llm);
-    this.sessionManager = new SessionManager();
+    this.sessionManager = new SessionManager({
+      store: createSessionStore(config.sessions.store),
+      timeoutMinutes: config.sessions.timeoutMinutes,
+      preferencesPath: config.sessions.preferencesPath,
+      contextTokenBudget: config.llm.contextTokenBudget,
+      summarizer: (previousSummary, messages, userId) =>
+        this.llmOrchestrator.summarizeHistory(previousSummary, messages, (tokens) => this.limits.addTokens(userId, tokens)),
+      defaultServers: config.mcp.servers.filter((s) => s.autoConnect).map((s) => s.id),
+      onSessionExpired: (scopeId) => {
+        this.connections.releaseScope(scopeId).catch((error) => {
+          logger.error(`Failed to release MCP connections of ${scopeId}:`, error);
+        });
+      },
+    });
+
+    this.renderer = new ResultRenderer(this.bot.telegram, config.telegram.allowedFileDirs);
+    this.replies = new ReplyFormatter(this.bot.telegram, {
+      parseMode: config.telegram.parseMode,
+      fileThreshold: config.telegram.replyFileThreshold,
+    });
+    this.resources = new ResourceBrowser(this.bot.telegram, {
+      connections: this.connections,
+      sessions: this.sessionManager,
+      renderer: this.renderer,
+      getTranslator: (userId, languageCode) => createTranslator(this.getLanguage(userId, languageCode)),
+      getServers: (scopeId, userId) => this.getAllowedServers(scopeId, userId),
+    });
+    this.prompts = new PromptRunner(this.bot.telegram, {
+      connections: this.connections,
+      getTranslator: (userId, languageCode) => createTranslator(this.getLanguage(userId, languageCode)),
+      getServers: (scopeId, userId) => this.getAllowedServers(scopeId, userId),
+    });
+    this.media = new MediaInput(this.bot.telegram, {
+      config,
+      connections: this.connections,
+      llm: this.llmOrchestrator,
+      authorizeTool: async (scopeId, userId, tool, args) => {
+        const serverConfig = this.connections.getServerConfig(tool.serverId);
+        if (!serverConfig || !this.access.canUseServer(userId, serverConfig)) {
+          return { approved: false, reason: `The user may not use ${tool.serverId}` };
+        }
+        return await this.createApprovalHandler(scopeId, userId)(tool, args);
+      },
+    });
+    this.approvals = new ApprovalManager(this.bot.telegram, (userId, languageCode) =>
+      createTranslator(this.getLanguage(userId, languageCode))
+    );
+    this.elicitations = new ElicitationManager(this.bot.telegram, (userId, languageCode) =>
+      createTranslator(this.getLanguage(userId, languageCode))
+    );
+    this.progress = new ProgressTracker(this.bot.telegram, (userId, languageCode) =>
+      createTranslator(this.getLanguage(userId, languageCode))
+    );
+
+    this.access = new AccessControl(config.access);
+    this.access.load();
+    this.limits = new RateLimiter(config.limits, (userId) => this.access.isAdmin(userId));
+
+    this.jobs = new JobQueue(config.jobs);
+    this.jobs.register('tool-call', { run: (job, signal) => this.runToolCallJob(job, signal) });
+    this.jobs.register('translate-pdf', { run: (job, signal) => this.runTranslationJob(job, signal) });
+    this.jobs.onJobUpdate((job) => {
+      this.notifyJobUpdate(job).catch((error) => {
+        logger.error(`Failed to notify update of job ${job.id}:`, error);
+      });
+    });
+
+    this.connections.setSamplingHandler((caller, serverId, params, signal) =>
+      this.handleSampling(caller, serverId, params, signal)
+    );
+    this.connections.setElicitationHandler((caller, serverId, params, signal) =>
+      this.handleElicitation(caller, serverId, params, signal)
+    );
+
+    this.connections.onStatusChange((event) => {
+      this.notifyServerStatus(event).catch((error) => {
+        logger.error(`Failed to notify status change of ${event.serverId}:`, error);
+      });
+    });
 
     this.setupHandlers();
   }
 
-  private async processTranslationInBackground(
+  // An explicit /lang choice wins over the language of the user's Telegram client
+  private getLanguage(userId: string, languageCode?: string): Language {
+    return this.sessionManager.getLanguage(userId) ?? resolveLanguage(languageCode, this.config.defaultLanguage);
+  }
+
+  // Session and MCP connections of the chat, or forum topic, an update belongs to
+  private getScopeId(ctx: Context): string {
+    const message: any = ctx.msg;
+    return getScopeId(ctx.chat!.id, message?.is_topic_message ? message.message_thread_id : undefined);
+  }
+
+  // In groups the bot only takes messages that mention it or reply to it. Returns the text
+  // without the mention, or undefined when the message is meant for someone else.
+  private getAddressedText(ctx: Context, text: string, entities: MessageEntity[] = []): string | undefined {
+    if (ctx.chat?.type === 'private') {
+      return text;
+    }
+
+    const mention = `@${ctx.botInfo.username}`.toLowerCase();
+    for (const entity of entities) {
+      const entityText = text.slice(entity.offset, entity.offset + entity.length);
+      if (entity.type === 'mention' && entityText.toLowerCase() === mention) {
+        return `${text.slice(0, entity.offset)}${text.slice(entity.offset + entity.length)}`.trim();
+      }
+      if (entity.type === 'text_mention' && entity.user.id === ctx.botInfo.id) {
+        return text;
+      }
+    }
+
+    // Messages in a forum topic reply to the topic's first message unless they reply to another
+    const message: any = ctx.msg;
+    const repliedTo = message?.reply_to_message;
+    const isTopicRoot = message?.is_topic_message && repliedTo?.message_id === message.message_thread_id;
+    return repliedTo?.from?.id === ctx.botInfo.id && !isTopicRoot ? text : undefined;
+  }
+
+  // In groups, servers are chosen by the chat's administrators and the bot's
+  private async canManageServers(ctx: Context, userId: string): Promise<boolean> {
+    if (ctx.chat?.type === 'private' || this.access.isAdmin(userId)) {
+      return true;
+    }
+    const member = await ctx.getChatMember(ctx.from!.id);
+    return member.status === 'creator' || member.status === 'administrator';
+  }
+
+  private getTranslator(ctx: Context): Translator {
+    if (!ctx.from) {
+      return createTranslator(this.config.defaultLanguage);
+    }
+    return createTranslator(this.getLanguage(ctx.from.id.toString(), ctx.from.language_code));
+  }
+
+  // Tell the chats that have the server active that it went down, came back or gave up
+  private async notifyServerStatus(event: MCPServerStatusEvent): Promise<void> {
+    const serverName = this.connections.getServerConfig(event.serverId)?.name || event.serverId;
+    const { status } = event;
+
+    const scopeIds = this.sessionManager
+      .getScopesWithServer(event.serverId)
+      .filter((scopeId) => event.scopeId === undefined || scopeId === event.scopeId);
+
+    for (const scopeId of scopeIds) {
+      const t = createTranslator(this.getLanguage(scopeId));
+
+      let message: string;
+      switch (status.state) {
+        case 'reconnecting':
+          message = t('status.reconnecting', {
+            name: serverName,
+            error: status.lastError ? ` (${status.lastError})` : '',
+          });
+          break;
+        case 'connected':
+          message = t('status.connected', { name: serverName });
+          break;
+        case 'failed':
+          message = t('status.failed', {
+            name: serverName,
+            error: status.lastError || t('common.unknownError'),
+            serverId: event.serverId,
+          });
+          break;
+      }
+
+      await this.bot.telegram.sendMessage(scopeId, message).catch((error) => {
+        logger.error(`Failed to notify ${scopeId}:`, error);
+      });
+    }
+  }
+
+  // Run long work outside the update handler. Polling waits for handlers to finish,
+  // and an LLM run may need later updates (e.g. approval button presses) to complete.
+  private runDetached(ctx: Context, task: () => Promise<void>): void {
+    this.track(
+      task().catch(async (error) => {
+        logger.error('Error processing message:', error);
+        const t = this.getTranslator(ctx);
+        await ctx
+          .reply(t('error.generic', { message: error instanceof Error ? redact(error.message) : t('common.unknownError') }))
+          .catch((err) => logger.error('Failed to send error message:', err));
+      })
+    );
+  }
+
+  // Count the work as in flight until it settles
+  private track(work: Promise<unknown>): void {
+    const settled = work.then(
+      () => undefined,
+      () => undefined
+    );
+    this.inFlight.add(settled);
+    settled.then(() => this.inFlight.delete(settled));
+  }
+
+  // Wait for the updates in flight, and what they start meanwhile, up to the drain timeout
+  private async drain(): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), this.config.http.drainTimeoutSeconds * 1000);
+    });
+
+    try {
+      while (this.inFlight.size > 0) {
+        logger.info(`Waiting for ${this.inFlight.size} updates in flight...`);
+        const drained = await Promise.race([Promise.all(this.inFlight).then(() => true), timeout]);
+        if (!drained) {
+          logger.warn(`Stopped waiting for ${this.inFlight.size} updates after ${this.config.http.drainTimeoutSeconds}s`);
+          return;
+        }
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Ready when Telegram answers and every shared autoConnect server is connected
+  private async getReadiness(): Promise<Readiness> {
+    const checks: Record<string, string> = {};
+
+    const telegramOk = await this.checkTelegram();
+    checks.telegram = telegramOk ? 'ok' : 'unreachable';
+
+    let serversOk = true;
+    for (const [serverId, state] of this.connections.getAutoConnectStatus()) {
+      checks[`mcp:${serverId}`] = state;
+      serversOk = serversOk && state === 'connected';
+    }
+
+    return { ready: telegramOk && serversOk, checks };
+  }
+
+  // getMe, at most once per TELEGRAM_CHECK_INTERVAL since probes come often
+  private async checkTelegram(): Promise<boolean> {
+    if (this.telegramCheck && Date.now() - this.telegramCheck.checkedAt < this.TELEGRAM_CHECK_INTERVAL) {
+      return this.telegramCheck.ok;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('getMe timed out')), this.TELEGRAM_CHECK_TIMEOUT);
+    });
+    let ok: boolean;
+    try {
+      await Promise.race([this.bot.telegram.getMe(), timeout]);
+      ok = true;
+    } catch (error) {
+      logger.warn('Telegram is not reachable:', error);
+      ok = false;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    this.telegramCheck = { ok, checkedAt: Date.now() };
+    return ok;
+  }
+
+  // Human friendly wait, e.g. "5 min" or "3 h 20 min"
+  private formatWait(ms: number): string {
+    const minutes = Math.max(1, Math.ceil(ms / 60000));
+    if (minutes < 60) {
+      return `${minutes} min`;
+    }
+    const rest = minutes % 60;
+    return rest > 0 ? `${Math.floor(minutes / 60)} h ${rest} min` : `${minutes / 60} h`;
+  }
+
+  private describeLimit(limit: Exclude<RateLimitResult, { allowed: true }>, t: Translator): string {
+    return t(`limits.${limit.kind}`, { limit: limit.limit, time: this.formatWait(limit.retryAfterMs) });
+  }
+
+  // Count a message against the user's limits, replying with the wait when over them
+  private async checkMessageLimit(ctx: Context, userId: string): Promise<boolean> {
+    const limit = this.limits.tryMessage(userId);
+    if (limit.allowed) {
+      return true;
+    }
+
+    logger.info(`User ${userId} hit the ${limit.kind} limit`);
+    await ctx.reply(this.describeLimit(limit, this.getTranslator(ctx)));
+    return false;
+  }
+
+  // Apply the tool call limit and the server's tool policy, asking the user in the chat when it says `ask`
+  private createApprovalHandler(chatId: number | string, userId: string, signal?: AbortSignal): ToolApprovalHandler {
+    return async (tool, args) => {
+      const limit = this.limits.tryToolCall(userId);
+      if (!limit.allowed) {
+        return {
+          approved: false,
+          reason: `The user reached the limit of ${limit.limit} tool calls per hour; they can try again in ${this.formatWait(limit.retryAfterMs)}`,
+        };
+      }
+      return await this.checkToolPolicy(chatId, userId, tool, args, signal);
+    };
+  }
+
+  // The server's tool policy for a call, asking the user in the chat when it says `ask`
+  private async checkToolPolicy(
+    chatId: number | string,
+    userId: string,
+    tool: MCPTool,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    const policy = resolveToolPolicy(this.connections.getServerConfig(tool.serverId), tool.name);
+
+    // A tool the configuration disables stays disabled for users who always allowed it before
+    if (policy === 'deny') {
+      return { approved: false, reason: 'This tool is disabled by the server configuration' };
+    }
+    if (policy === 'allow' || this.sessionManager.isToolAlwaysAllowed(userId, tool.serverId, tool.name)) {
+      return { approved: true };
+    }
+
+    const answer = await this.approvals.request(chatId, userId, tool, args, signal);
+    switch (answer) {
+      case 'always':
+        this.sessionManager.allowToolAlways(userId, tool.serverId, tool.name);
+        return { approved: true };
+      case 'approve':
+        return { approved: true };
+      case 'deny':
+        return { approved: false, reason: 'The user denied the tool call' };
+      case 'timeout':
+        return { approved: false, reason: 'The user did not answer the approval request in time' };
+      case 'cancelled':
+        return { approved: false, reason: 'The user cancelled the request' };
+    }
+  }
+
+  // Run a server's sampling request on the user's behalf: it needs token budget left, is
+  // counted like any other query and, with `samplingPolicy: "ask"`, the user's approval.
+  private async handleSampling(
+    { scopeId, userId }: ToolCaller,
+    serverId: string,
+    params: CreateMessageRequest['params'],
+    signal: AbortSignal
+  ): Promise<CreateMessageResult> {
+    const serverConfig = this.connections.getServerConfig(serverId);
+    const policy = serverConfig?.samplingPolicy ?? 'allow';
+    if (policy === 'deny') {
+      throw new Error(`Sampling is disabled for ${serverId}`);
+    }
+
+    const limit = this.limits.checkTokens(userId);
+    if (!limit.allowed) {
+      throw new Error(`User ${userId} has used up the daily token budget`);
+    }
+
+    if (policy === 'ask') {
+      const answer = await this.approvals.requestSampling(scopeId, userId, serverConfig?.name || serverId, params, signal);
+      if (answer !== 'approve' && answer !== 'always') {
+        throw new Error('The user did not approve the sampling request');
+      }
+    }
+
+    logger.info(`Sampling for ${serverId} on behalf of user ${userId}`);
+    return await this.llmOrchestrator.createMessage(params, {
+      onUsage: (tokens) => this.limits.addTokens(userId, tokens),
+      signal,
+    });
+  }
+
+  // Ask the user for the input a server requested in the middle of one of their tool calls
+  // Requests servers make during a tool call are answered by the user who made it, in the
+  // chat (the scope) it came from
+  private async handleElicitation(
+    { scopeId, userId }: ToolCaller,
+    serverId: string,
+    params: ElicitRequestFormParams,
+    signal: AbortSignal
+  ): Promise<ElicitResult> {
+    const serverName = this.connections.getServerConfig(serverId)?.name || serverId;
+    return await this.elicitations.request(scopeId, userId, serverName, params, signal);
+  }
+
+  // `preamble` holds messages that lead up to the query, e.g. the earlier turns of an MCP prompt;
+  // `attachments` are images sent with it
+  private async answerQuery(
+    ctx: Context,
     userId: string,
-    chatId: number,
-    filePath: string,
     query: string,
-    instructions: string
+    tools: MCPTool[],
+    { preamble = [], attachments }: { preamble?: ConversationMessage[]; attachments?: MessageAttachment[] } = {}
   ): Promise<void> {
-    const MAX_RETRIES = 3;
-    let attempt = 0;
-    let lastError: Error | null = null;
+    const scopeId = this.getScopeId(ctx);
+    this.sessionManager.setOwner(scopeId, userId);
 
-    while (attempt < MAX_RETRIES) {
-      try {
-        attempt++;
-        logger.info(`Starting background translation for user ${userId}, file: ${filePath} (attempt ${attempt}/${MAX_RETRIES})`);
-
-        if (attempt > 1) {
-          await this.bot.telegram.sendMessage(
-            chatId,
-            `🔄 Reintentando traducción (intento ${attempt}/${MAX_RETRIES})...`
-          );
-          // Wait before retry
-          await new Promise(resolve => setTimeout(resolve, 5000));
-        }
+    // Show typing indicator
+    await ctx.sendChatAction('typing');
 
-        // Send typing indicator
-        await this.bot.telegram.sendChatAction(chatId, 'upload_document');
+    // Pinned resources, then the history (with the summary of older turns) as it was before this query
+    const history = [
+      ...(await this.resources.getPinnedContext(scopeId, userId)),
+      ...this.sessionManager.getContext(scopeId),
+      ...preamble,
+    ];
 
-        // Extract language from caption/instructions
-        let sourceLang = 'en';
-        let targetLang = 'es';
+    for (const message of preamble) {
+      this.sessionManager.addMessage(scopeId, message);
+    }
 
-        const lowerInstructions = instructions.toLowerCase();
-        if (lowerInstructions.includes('to spanish') || lowerInstructions.includes('a español')) {
-          targetLang = 'es';
-        } else if (lowerInstructions.includes('to english') || lowerInstructions.includes('a inglés')) {
-          targetLang = 'en';
-        } else if (lowerInstructions.includes('to french') || lowerInstructions.includes('a francés')) {
-          targetLang = 'fr';
-        }
+    // Add user message to history. Images only go to the model with this turn; history keeps
+    // a note instead, so the store and later requests do not carry the image data
+    const userMessage: ConversationMessage = {
+      role: 'user',
+      content: [query, ...(attachments || []).map((attachment) => `[${attachment.type}]`)].filter(Boolean).join(' '),
+      timestamp: Date.now(),
+    };
+    this.sessionManager.addMessage(scopeId, userMessage);
+
+    // Store tool results to check for files
+    const toolResults: any[] = [];
+    // The Cancel button of a tool call stops the whole run
+    const run = new AbortController();
+
+    const onToolCall: ToolCallHandler = async (toolName, args) => {
+      const tool = tools.find((candidate) => candidate.qualifiedName === toolName);
+      const serverConfig = tool && this.connections.getServerConfig(tool.serverId);
+      if (tool && serverConfig?.backgroundTools?.includes(tool.name)) {
+        const job = this.jobs.enqueue({
+          kind: 'tool-call',
+          userId,
+          chatId: scopeId,
+          language: this.getLanguage(userId, ctx.from?.language_code),
+          label: tool.qualifiedName,
+          serverId: tool.serverId,
+          toolName: tool.name,
+          args,
+          // onApproval has run: under `ask` the user approved this call
+          approved: resolveToolPolicy(serverConfig, tool.name) === 'ask',
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Started background job ${job.id}. The result will be sent to this chat when it is ready; the user can follow it with /jobs.`,
+            },
+          ],
+        };
+      }
 
-        logger.info(`Translating ${filePath} from ${sourceLang} to ${targetLang}`);
+      logger.info(`Executing tool ${toolName} for user ${userId}`);
+      await ctx.sendChatAction('typing');
 
-        // Call translate_pdf tool DIRECTLY (no LLM overhead)
-        const result = await this.mcpClient.executeTool('translate_pdf', {
-          filePath,
-          sourceLang,
-          targetLang,
+      const progress = this.progress.start(scopeId, userId, toolName, () => run.abort());
+      const serverIds = this.getAllowedServers(scopeId, userId);
+      let result: unknown;
+      try {
+        result = await this.connections.executeTool(scopeId, userId, serverIds, toolName, args, {
+          signal: run.signal,
+          onProgress: (update) => progress.update(update),
         });
-
-        logger.info(`Translation result:`, JSON.stringify(result, null, 2));
-
-        // Parse the result
-        let translatedFilePath: string | null = null;
-        let originalFileName = filePath.split('/').pop() || 'document';
-        let fileSize = 'N/A';
-
-        if (result && typeof result === 'object') {
-          const content = (result as any).content || [];
-          logger.info(`Result content array length: ${content.length}`);
-
-          for (const item of content) {
-            logger.info(`Content item type: ${item.type}`);
-            if (item.type === 'text') {
-              logger.info(`Text content: ${item.text}`);
-              try {
-                const data = JSON.parse(item.text);
-                logger.info(`Parsed data:`, data);
-
-                if (data.translatedFile) {
-                  translatedFilePath = data.translatedFile;
-                  originalFileName = data.originalFile?.split('/').pop() || originalFileName;
-                  fileSize = data.fileSizeReadable || fileSize;
-
-                  logger.info(`✅ Found translated file path: ${translatedFilePath}`);
-                  logger.info(`   Original file: ${originalFileName}`);
-                  logger.info(`   Size: ${fileSize}`);
-                }
-              } catch (err) {
-                logger.error('Error parsing tool result:', err);
-              }
+      } finally {
+        await progress.finish();
+      }
+      toolResults.push({ toolName, result });
+      // Images and files go to the chat, not into the model's context
+      return this.renderer.describeForModel(result);
+    };
+    const t = this.getTranslator(ctx);
+    const options: QueryOptions = {
+      onToolCall,
+      onApproval: this.createApprovalHandler(scopeId, userId, run.signal),
+      promptContext: this.getPromptContext(scopeId, userId, this.getLanguage(userId, ctx.from?.language_code)),
+      onUsage: (tokens) => this.limits.addTokens(userId, tokens),
+      signal: run.signal,
+      attachments,
+    };
+
+    let response: string;
+    let reply: StreamingReply | undefined;
+    try {
+      if (this.config.telegram.streamResponses) {
+        // Show the answer as it is written, with a status line while tools run
+        const streamingReply = new StreamingReply(this.bot.telegram, scopeId, t, this.replies);
+        reply = streamingReply;
+        await streamingReply.start();
+
+        response = await this.llmOrchestrator.processQueryStream(
+          query,
+          history,
+          tools,
+          options,
+          (event) => {
+            switch (event.type) {
+              case 'text-delta':
+                streamingReply.appendText(event.text);
+                break;
+              case 'tool-call':
+                streamingReply.toolStarted(event.toolName);
+                break;
+              case 'tool-result':
+                streamingReply.toolFinished(event.toolName);
+                break;
+              case 'step-finish':
+                streamingReply.stepFinished();
+                break;
             }
           }
-        }
+        );
+      } else {
+        // Process query with LLM
+        response = await this.llmOrchestrator.processQuery(query, history, tools, options);
+      }
+    } catch (error) {
+      if (!run.signal.aborted) {
+        throw error;
+      }
+      logger.info(`Query of user ${userId} stopped by a cancelled tool call`);
+      await (reply ? reply.finish(t('progress.stopped')) : ctx.reply(t('progress.stopped')));
+      return;
+    }
+
+    // Send response
+    if (reply) {
+      await reply.finish(response);
+    } else {
+      await this.replies.send(scopeId, response || t('stream.empty'));
+    }
 
-        // Send the file if we got it
-        if (translatedFilePath && existsSync(translatedFilePath)) {
-          const fs = await import('fs/promises');
-          const fileStats = await fs.stat(translatedFilePath);
+    // Add assistant response to history
+    const assistantMessage: ConversationMessage = {
+      role: 'assistant',
+      content: response,
+      timestamp: Date.now(),
+    };
+    this.sessionManager.addMessage(scopeId, assistantMessage);
+
+    // Send images, audio and files the tools returned
+    for (const { result } of toolResults) {
+      await this.renderer.render(scopeId, result);
+    }
+  }
 
-          logger.info(`📤 Sending translated file to user: ${translatedFilePath}`);
-          logger.info(`   File exists: ${existsSync(translatedFilePath)}`);
-          logger.info(`   File size on disk: ${fileStats.size} bytes`);
+  // Read the server configuration again and apply it; throws, keeping the current one, when it is invalid.
+  // Reloads from the file watcher and /reload run one after another.
+  private reloadServers(): Promise<MCPServerChanges> {
+    const reload = this.serversReload.catch(() => undefined).then(async () => {
+      const servers = loadServers(this.config.mcp.serversPath);
+      const changes = await this.connections.updateServers(servers);
+
+      this.config.mcp.servers = servers;
+      this.sessionManager.setDefaultServers(servers.filter((s) => s.autoConnect).map((s) => s.id));
+      for (const serverId of changes.removed) {
+        this.sessionManager.forgetServer(serverId);
+      }
 
-          await this.bot.telegram.sendDocument(chatId, { source: translatedFilePath });
+      logger.info(
+        `Reloaded servers: added [${changes.added.join(', ')}], removed [${changes.removed.join(', ')}], changed [${changes.changed.join(', ')}]`
+      );
+      return changes;
+    });
+    this.serversReload = reload;
+    return reload;
+  }
 
-          await this.bot.telegram.sendMessage(
-            chatId,
-            `✅ ¡Traducción completada!\n\n📄 Original: ${originalFileName}\n📊 Tamaño: ${fileSize}`
-          );
+  // What the system prompt template gets to know about this user
+  private getPromptContext(scopeId: string, userId: string, language: Language): SystemPromptContext {
+    const servers = this.getAllowedServers(scopeId, userId)
+      .filter((serverId) => this.connections.isConnected(scopeId, serverId))
+      .map((serverId) => this.connections.getServerConfig(serverId)?.name || serverId);
 
-          logger.info(`Background translation completed successfully for user ${userId}`);
-          return; // Success! Exit the retry loop
-        } else {
-          throw new Error(`Archivo traducido no encontrado: ${translatedFilePath}`);
-        }
-      } catch (error: any) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        logger.error(`Background translation error for user ${userId} (attempt ${attempt}/${MAX_RETRIES}):`, error);
+    return { language: LANGUAGES[language].englishName, servers };
+  }
 
-        // Special handling for timeout errors - file might have been created anyway
-        if (error?.message?.includes('timeout') || error?.code === -32001) {
-          logger.warn(`MCP timeout detected, checking if translation completed anyway...`);
+  // Active servers of the scope that the user is allowed to use; permissions may have changed since
+  // they connected, and in a group the servers were chosen by an administrator
+  private getAllowedServers(scopeId: string, userId: string = scopeId): string[] {
+    return this.sessionManager.getActiveServers(scopeId).filter((serverId) => {
+      const serverConfig = this.connections.getServerConfig(serverId);
+      return !serverConfig || this.access.canUseServer(userId, serverConfig);
+    });
+  }
 
-          // Wait for file to potentially finish writing
-          await new Promise(resolve => setTimeout(resolve, 10000));
+  // Available commands, with the admin ones for admins
+  private getCommandsHelp(userId: string, t: Translator): string {
+    const commands = t('help.commands');
+    return this.access.isAdmin(userId) ? `${commands}\n\n${t('admin.commands')}` : commands;
+  }
 
-          const tempDir = join(process.cwd(), 'temp');
-          const fs = await import('fs/promises');
+  // Tools from the servers active in the scope that the user may use, connecting any that are not up yet
+  private async getUserTools(scopeId: string, userId: string): Promise<MCPTool[]> {
+    const activeServers = this.getAllowedServers(scopeId, userId);
+    await this.connections.ensureConnected(scopeId, activeServers);
+    return this.connections.getTools(scopeId, activeServers);
+  }
 
-          // List all files that match the translated pattern
-          const files = await fs.readdir(tempDir);
-          const fileName = filePath.split('/').pop() || '';
+  // Target language for a translation, taken from the caption of the document
+  private getTranslationArgs(filePath: string, instructions: string): Record<string, unknown> {
+    const sourceLang = 'en';
+    let targetLang = 'es';
+
+    const lowerInstructions = instructions.toLowerCase();
+    if (lowerInstructions.includes('to spanish') || lowerInstructions.includes('a español')) {
+      targetLang = 'es';
+    } else if (lowerInstructions.includes('to english') || lowerInstructions.includes('a inglés')) {
+      targetLang = 'en';
+    } else if (lowerInstructions.includes('to french') || lowerInstructions.includes('a francés')) {
+      targetLang = 'fr';
+    }
+
+    return { filePath, sourceLang, targetLang };
+  }
+
+  // Generic background tool call: deliver its text and files to the chat it came from
+  private async runToolCallJob(job: Job, signal: AbortSignal): Promise<void> {
+    const tool = await this.resolveJobTool(job, signal);
+    const result: any = await this.executeJobTool(job, tool, signal);
+
+    const text = (result?.content || [])
+      .filter((item: any) => item.type === 'text')
+      .map((item: any) => item.text)
+      .join('\n');
+    if (result?.isError) {
+      throw new Error(text || `Tool ${job.toolName} failed`);
+    }
+
+    const t = createTranslator(job.language);
+    const output = text.length > 3500 ? `${text.slice(0, 3500)}…` : text;
+    await this.bot.telegram.sendMessage(
+      job.chatId,
+      [t('jobs.completed', { jobId: job.id, label: job.label }), output].filter(Boolean).join('\n\n')
+    );
+    await this.renderer.render(job.chatId, result);
+  }
 
-          logger.info(`Looking for translated file matching: translated_*${fileName}`);
-          logger.info(`Files in temp dir: ${files.filter(f => f.includes('translated_')).join(', ')}`);
+  private async runTranslationJob(job: Job, signal: AbortSignal): Promise<void> {
+    const t = createTranslator(job.language);
+    const filePath = String(job.args.filePath);
 
-          // Find the translated file (could have extra prefix)
-          const translatedFile = files.find(f =>
-            f.startsWith('translated_') && f.endsWith(fileName.replace(/^\d+_/, ''))
-          );
+    const tool = await this.resolveJobTool(job, signal);
+    await this.bot.telegram.sendChatAction(job.chatId, 'upload_document');
 
-          if (translatedFile) {
-            const fullPath = join(tempDir, translatedFile);
-            logger.info(`✅ Translation file found despite timeout: ${fullPath}`);
+    logger.info(`Translating ${filePath} from ${job.args.sourceLang} to ${job.args.targetLang}`);
 
-            await this.bot.telegram.sendDocument(chatId, { source: fullPath });
-            await this.bot.telegram.sendMessage(chatId, '✅ ¡Traducción completada exitosamente!');
-            return; // Success!
-          } else {
-            logger.error(`Translation file not found. Searched for pattern: translated_*${fileName}`);
-          }
-        }
+    // Call translate_pdf tool DIRECTLY (no LLM overhead)
+    const result = await this.executeJobTool(job, tool, signal);
 
-        if (attempt < MAX_RETRIES) {
-          // Wait before retrying (exponential backoff)
-          const delaySeconds = Math.pow(2, attempt) * 5; // 10s, 20s, 40s
-          logger.info(`Retrying in ${delaySeconds} seconds...`);
+    // Only the shape of the result: it can hold file contents and paths
+    const content = (result as any)?.content || [];
+    const types = content.map((item: any) => item.type).join(', ') || 'none';
+    logger.info(`Translation result: ${content.length} items (${types}), ${JSON.stringify(result).length} characters`);
 
-          await this.bot.telegram.sendMessage(
-            chatId,
-            `⚠️ Intento de traducción ${attempt} falló. Reintentando en ${delaySeconds} segundos...`
-          );
+    // Details for the completion message
+    let originalFileName = filePath.split('/').pop() || 'document';
+    let fileSize = 'N/A';
 
-          await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
+    for (const item of content) {
+      if (item.type === 'text') {
+        try {
+          const data = JSON.parse(item.text);
+          if (data.translatedFile) {
+            originalFileName = data.originalFile?.split('/').pop() || originalFileName;
+            fileSize = data.fileSizeReadable || fileSize;
+          }
+        } catch (err) {
+          logger.error('Error parsing tool result:', err);
         }
       }
     }
 
-    // If we get here, all retries failed
-    logger.error(`All ${MAX_RETRIES} translation attempts failed for user ${userId}`);
+    if ((await this.renderer.render(job.chatId, result)) === 0) {
+      throw new Error(t('translation.fileNotFound', { path: filePath }));
+    }
+
     await this.bot.telegram.sendMessage(
-      chatId,
-      `❌ La traducción falló después de ${MAX_RETRIES} intentos.\n\n` +
-      `Error: ${lastError?.message || 'Error desconocido'}\n\n` +
-      `Por favor intenta de nuevo más tarde o contacta a soporte.`
+      job.chatId,
+      t('translation.done', { fileName: originalFileName, size: fileSize })
     );
   }
 
+  // Access and the tool's policy are checked again when the job starts: either may have
+  // changed while the job waited
+  private async resolveJobTool(job: Job, signal: AbortSignal): Promise<MCPTool> {
+    const scopeId = String(job.chatId);
+    if (!this.access.isAuthorized(job.userId, getScopeChatId(scopeId))) {
+      throw new Error(`User ${job.userId} is no longer allowed to use the bot`);
+    }
+    const serverConfig = this.connections.getServerConfig(job.serverId);
+    if (!serverConfig || !this.access.canUseServer(job.userId, serverConfig)) {
+      throw new Error(`User ${job.userId} is no longer allowed to use ${job.serverId}`);
+    }
+
+    await this.connections.ensureConnected(scopeId, [job.serverId]);
+    // Jobs queued before tool names were stored unqualified still carry the qualified name
+    const tool = this.connections
+      .getTools(scopeId, [job.serverId])
+      .find((candidate) => candidate.name === job.toolName || candidate.qualifiedName === job.toolName);
+    if (!tool) {
+      throw new Error(`Tool ${job.toolName} is no longer available on ${job.serverId}`);
+    }
+    const policy = resolveToolPolicy(serverConfig, tool.name);
+    if (policy === 'deny') {
+      throw new Error(`Tool ${tool.name} of ${job.serverId} is disabled by the server configuration`);
+    }
+    // Queued under `allow` (or before approvals existed) and now set to `ask`: ask first
+    if (policy === 'ask' && !job.approved) {
+      const decision = await this.checkToolPolicy(job.chatId, job.userId, tool, job.args, signal);
+      if (!decision.approved) {
+        throw new Error(decision.reason);
+      }
+      // Retries of the job do not ask again
+      job.approved = true;
+    }
+    return tool;
+  }
+
+  // A job's tool call with a progress message; its Cancel button cancels the job
+  private async executeJobTool(job: Job, tool: MCPTool, signal: AbortSignal): Promise<unknown> {
+    const progress = this.progress.start(job.chatId, job.userId, job.label, () => this.jobs.cancel(job.userId, job.id));
+    try {
+      const scopeId = String(job.chatId);
+      return await this.connections.executeTool(scopeId, job.userId, [job.serverId], tool.qualifiedName, job.args, {
+        signal,
+        onProgress: (update) => progress.update(update),
+      });
+    } finally {
+      await progress.finish();
+    }
+  }
+
+  // Completions are delivered by the job itself; tell the user about retries and failures
+  private async notifyJobUpdate(job: Job): Promise<void> {
+    const t = createTranslator(job.language);
+
+    let message: string | undefined;
+    if (job.state === 'queued' && job.lastError) {
+      message = t('jobs.retrying', {
+        jobId: job.id,
+        label: job.label,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts,
+        time: this.formatWait(job.runAfter - Date.now()),
+        error: job.lastError,
+      });
+    } else if (job.state === 'failed') {
+      message = t('jobs.failed', {
+        jobId: job.id,
+        label: job.label,
+        attempts: job.attempts,
+        error: job.lastError || t('common.unknownError'),
+      });
+    }
+
+    if (message) {
+      await this.bot.telegram.sendMessage(job.chatId, message);
+    }
+  }
+
   private setupHandlers(): void {
     // Ensure temp directory exists
     const tempDir = join(process.cwd(), 'temp');
@@ -222,137 +873,485 @@ export class TelegramBot {
       mkdirSync(tempDir, { recursive: true });
     }
 
+    // Updates count as in flight until their handlers are done
+    this.bot.use((ctx, next) => {
+      const handling = next();
+      this.track(handling);
+      return handling;
+    });
+
+    // Authorization runs before every other handler
+    this.bot.use(
+      this.access.middleware((languageCode) => createTranslator(resolveLanguage(languageCode, this.config.defaultLanguage)))
+    );
+
+    // Approval buttons for tool calls
+    this.approvals.register(this.bot);
+
+    // Buttons of the dialogs for servers' elicitation requests
+    this.elicitations.register(this.bot);
+
+    // Cancel buttons of running tool calls
+    this.progress.register(this.bot);
+
+    // Resource list pages and actions
+    this.resources.register(this.bot);
+
+    // Cancel button of prompt argument dialogs
+    this.prompts.register(this.bot);
+
     // Start command
     this.bot.command('start', async (ctx) => {
-      const welcomeMessage = `¡Bienvenido al Cliente MCP de Telegram! 🤖\n\nSoy un asistente de IA impulsado por el Protocolo de Contexto de Modelo.\n\nComandos disponibles:\n/help - Mostrar este mensaje de ayuda\n/connect <server_id> - Conectar a un servidor MCP\n/disconnect <server_id> - Desconectar de un servidor\n/servers - Listar servidores conectados y herramientas disponibles\n/reset - Limpiar historial de conversación\n\nPuedes enviarme:\n- Mensajes de texto\n- Documentos PDF (¡puedo traducirlos!)\n\n¡Simplemente sube un archivo y dime qué quieres hacer con él!`;
-
-      await ctx.reply(welcomeMessage);
+      const t = this.getTranslator(ctx);
+      await ctx.reply(t('start.welcome', { commands: this.getCommandsHelp(ctx.from.id.toString(), t) }));
     });
 
     // Help command
     this.bot.command('help', async (ctx) => {
-      await ctx.reply(`Comandos disponibles:\n/start - Mensaje de bienvenida\n/help - Mostrar esta ayuda\n/connect <server_id> - Conectar a servidor MCP\n/disconnect <server_id> - Desconectar del servidor\n/servers - Listar servidores y herramientas conectadas\n/reset - Limpiar historial de conversación\n\n¡Simplemente envíame un mensaje para chatear!`);
+      const t = this.getTranslator(ctx);
+      await ctx.reply(t('help.text', { commands: this.getCommandsHelp(ctx.from.id.toString(), t) }));
     });
 
     // Connect command
     this.bot.command('connect', async (ctx) => {
+      const t = this.getTranslator(ctx);
       const args = ctx.message.text.split(' ').slice(1);
+      const userId = ctx.from.id.toString();
       if (args.length === 0) {
-        await ctx.reply('Uso: /connect <server_id>\n\nServidores disponibles: (configurar en servers.json)');
+        const servers = this.connections
+          .getServers()
+          .filter((s) => this.access.canUseServer(userId, s))
+          .map((s) => s.id)
+          .join(', ');
+        await ctx.reply(t('connect.usage', { servers }));
         return;
       }
 
       const serverId = args[0];
-      const userId = ctx.from.id.toString();
+      if (!(await this.canManageServers(ctx, userId))) {
+        await ctx.reply(t('group.adminOnly'));
+        return;
+      }
 
       try {
-        await ctx.reply(`Conectando a ${serverId}...`);
+        await ctx.reply(t('connect.connecting', { serverId }));
 
         // Find server config
-        const serverConfig = this.config.mcp.servers.find((s) => s.id === serverId);
+        const serverConfig = this.connections.getServerConfig(serverId);
         if (!serverConfig) {
-          await ctx.reply(`Servidor ${serverId} no encontrado en la configuración.`);
+          await ctx.reply(t('connect.notFound', { serverId }));
+          return;
+        }
+        if (!this.access.canUseServer(userId, serverConfig)) {
+          await ctx.reply(t('access.serverDenied', { serverId }));
           return;
         }
 
-        await this.mcpClient.connect(serverConfig);
-        this.sessionManager.addActiveServer(userId, serverId);
+        const scopeId = this.getScopeId(ctx);
+        const tools = await this.connections.connect(scopeId, serverId);
+        this.sessionManager.addActiveServer(scopeId, serverId);
+        this.sessionManager.setOwner(scopeId, userId);
 
-        const tools = this.mcpClient.getAllTools();
         await ctx.reply(
-          `✅ Conectado a ${serverConfig.name}!\n\nHerramientas disponibles (${tools.length}):\n${tools.map((t) => `• ${t.name}: ${t.description}`).join('\n')}`
+          t('connect.success', {
+            name: serverConfig.name,
+            count: tools.length,
+            tools: tools.map((tool) => `• ${tool.qualifiedName}: ${tool.description}`).join('\n'),
+          })
         );
       } catch (error) {
         logger.error('Failed to connect to server:', error);
-        await ctx.reply(`❌ Error al conectar a ${serverId}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+        await ctx.reply(
+          t('connect.failed', { serverId, message: error instanceof Error ? redact(error.message) : t('common.unknownError') })
+        );
       }
     });
 
     // Disconnect command
     this.bot.command('disconnect', async (ctx) => {
+      const t = this.getTranslator(ctx);
       const args = ctx.message.text.split(' ').slice(1);
       if (args.length === 0) {
-        await ctx.reply('Uso: /disconnect <server_id>');
+        await ctx.reply(t('disconnect.usage'));
         return;
       }
 
       const serverId = args[0];
-      const userId = ctx.from.id.toString();
+      if (!(await this.canManageServers(ctx, ctx.from.id.toString()))) {
+        await ctx.reply(t('group.adminOnly'));
+        return;
+      }
 
       try {
-        await this.mcpClient.disconnect(serverId);
-        this.sessionManager.removeActiveServer(userId, serverId);
-        await ctx.reply(`✅ Desconectado de ${serverId}`);
+        const scopeId = this.getScopeId(ctx);
+        await this.connections.disconnect(scopeId, serverId);
+        this.sessionManager.removeActiveServer(scopeId, serverId);
+        await ctx.reply(t('disconnect.success', { serverId }));
       } catch (error) {
         logger.error('Failed to disconnect:', error);
-        await ctx.reply(`❌ Error al desconectar: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+        await ctx.reply(
+          t('disconnect.failed', { message: error instanceof Error ? redact(error.message) : t('common.unknownError') })
+        );
       }
     });
 
     // Servers command
     this.bot.command('servers', async (ctx) => {
-      const connectedServers = this.mcpClient.getConnectedServers();
-      const tools = this.mcpClient.getAllTools();
+      const t = this.getTranslator(ctx);
+      const scopeId = this.getScopeId(ctx);
+      const activeServers = this.getAllowedServers(scopeId, ctx.from.id.toString());
+      await this.connections.ensureConnected(scopeId, activeServers);
+      const toolsByServer = this.connections.getToolsByServer(scopeId, activeServers);
+
+      if (activeServers.length === 0) {
+        await ctx.reply(t('servers.none'));
+        return;
+      }
+
+      let message = `${t('servers.header', { count: activeServers.length })}\n`;
+      for (const serverId of activeServers) {
+        const serverConfig = this.connections.getServerConfig(serverId);
+        const serverName = serverConfig?.name || serverId;
+        const tools = toolsByServer.get(serverId);
+        const status = this.connections.getServerStatus(scopeId, serverId);
+        const scope = serverConfig?.shared ? t('servers.shared') : t('servers.personal');
+        const lastError = status?.lastError ? `\n  ${t('servers.lastError', { error: status.lastError })}` : '';
+
+        if (status?.state === 'reconnecting') {
+          message += `\n• ${serverName} (${serverId}, ${scope}) - ${t('servers.reconnecting', { attempts: status.reconnectAttempts })}${lastError}\n`;
+          continue;
+        }
+        if (status?.state === 'failed') {
+          message += `\n• ${serverName} (${serverId}, ${scope}) - ${t('servers.failed')}${lastError}\n`;
+          continue;
+        }
+        if (!tools) {
+          message += `\n• ${serverName} (${serverId}, ${scope}) - ${t('servers.notConnected')}\n`;
+          continue;
+        }
+        message += `\n• ${serverName} (${serverId}, ${scope}) - ${t('servers.connected', { count: tools.length })}\n`;
+        message += tools.map((tool) => `  🔧 ${tool.qualifiedName}: ${tool.description}`).join('\n');
+        message += '\n';
+      }
 
-      if (connectedServers.length === 0) {
-        await ctx.reply('No hay servidores conectados. Usa /connect <server_id> para conectar a un servidor.');
+      await ctx.reply(message);
+    });
+
+    // Resources command: /resources [server_id]
+    this.bot.command('resources', async (ctx) => {
+      const serverId = ctx.message.text.split(' ').slice(1)[0];
+      this.runDetached(ctx, () =>
+        this.resources.list(this.getScopeId(ctx), ctx.from.id.toString(), this.getTranslator(ctx), serverId)
+      );
+    });
+
+    // Read command: /read <uri>
+    this.bot.command('read', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const uri = ctx.message.text.split(' ').slice(1).join(' ').trim();
+      if (!uri) {
+        await ctx.reply(t('resources.readUsage'));
         return;
       }
+      this.runDetached(ctx, () => this.resources.read(this.getScopeId(ctx), ctx.from.id.toString(), uri, t));
+    });
+
+    // Prompts command: list the prompt templates of the active servers
+    this.bot.command('prompts', async (ctx) => {
+      await this.prompts.list(this.getScopeId(ctx), ctx.from.id.toString(), this.getTranslator(ctx));
+    });
+
+    // Prompt command: /prompt <name> [argument=value ...]
+    this.bot.command('prompt', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const userId = ctx.from.id.toString();
+      const scopeId = this.getScopeId(ctx);
+      const input = ctx.message.text.split(' ').slice(1).join(' ').trim();
+      if (!input) {
+        await ctx.reply(t('prompts.usage'));
+        return;
+      }
+
+      // The dialog waits for later messages, so everything runs outside the handler
+      this.runDetached(ctx, async () => {
+        await this.connections.ensureConnected(scopeId, this.getAllowedServers(scopeId, userId));
+        const messages = await this.prompts.prepare(scopeId, userId, input, t);
+        if (!messages) {
+          return;
+        }
 
-      let message = `📡 Servidores Conectados (${connectedServers.length}):\n${connectedServers.map((s) => `• ${s}`).join('\n')}\n\n`;
-      message += `🔧 Herramientas Disponibles (${tools.length}):\n${tools.map((t) => `• ${t.name}: ${t.description}`).join('\n')}`;
+        // The last user turn is the query; any assistant turns after it are dropped
+        const queryIndex = messages.map((message) => message.role).lastIndexOf('user');
+        if (queryIndex === -1) {
+          throw new Error(t('prompts.noUserMessage'));
+        }
+        if (!(await this.checkMessageLimit(ctx, userId))) {
+          return;
+        }
+
+        const tools = await this.getUserTools(scopeId, userId);
+        await this.answerQuery(ctx, userId, messages[queryIndex].content, tools, {
+          preamble: messages.slice(0, queryIndex),
+        });
+      });
+    });
+
+    // Pin command: /pin <uri>
+    this.bot.command('pin', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const uri = ctx.message.text.split(' ').slice(1).join(' ').trim();
+      if (!uri) {
+        await ctx.reply(t('resources.pinUsage'));
+        return;
+      }
+      this.runDetached(ctx, () => this.resources.pin(this.getScopeId(ctx), ctx.from.id.toString(), uri, t));
+    });
+
+    // Unpin command: /unpin [uri]
+    this.bot.command('unpin', async (ctx) => {
+      const uri = ctx.message.text.split(' ').slice(1).join(' ').trim() || undefined;
+      await this.resources.unpin(this.getScopeId(ctx), ctx.from.id.toString(), this.getTranslator(ctx), uri);
+    });
+
+    // Context command
+    this.bot.command('context', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const usage = this.sessionManager.getContextUsage(this.getScopeId(ctx));
+      const used = usage.historyTokens + usage.summaryTokens;
+      const percent = Math.round((used / usage.budget) * 100);
+
+      let message = `${t('context.title')}\n\n`;
+      message += `${t('context.tokens', { used, budget: usage.budget, percent })}\n`;
+      message += `${t('context.messages', { count: usage.messages, tokens: usage.historyTokens })}\n`;
+      message += `${t('context.summaryTokens', { tokens: usage.summaryTokens })}\n`;
+
+      if (usage.summary) {
+        const summary = usage.summary.length > 3000 ? `${usage.summary.slice(0, 3000)}…` : usage.summary;
+        message += `\n${t('context.summary', { summary })}`;
+      } else {
+        message += `\n${t('context.noSummary')}`;
+      }
 
       await ctx.reply(message);
     });
 
+    // Language command: /lang <code> switches directly, /lang alone offers buttons
+    this.bot.command('lang', async (ctx) => {
+      const userId = ctx.from.id.toString();
+      const code = ctx.message.text.split(' ').slice(1)[0]?.toLowerCase();
+
+      if (code) {
+        if (!isLanguage(code)) {
+          const t = this.getTranslator(ctx);
+          await ctx.reply(t('lang.unsupported', { code, supported: SUPPORTED_LANGUAGES.join(', ') }));
+          return;
+        }
+        this.sessionManager.setLanguage(userId, code);
+        await ctx.reply(createTranslator(code)('lang.set', { language: LANGUAGES[code].name }));
+        return;
+      }
+
+      const language = this.getLanguage(userId, ctx.from.language_code);
+      await ctx.reply(
+        createTranslator(language)('lang.current', { language: LANGUAGES[language].name }),
+        Markup.inlineKeyboard(
+          SUPPORTED_LANGUAGES.map((lang) => Markup.button.callback(LANGUAGES[lang].name, `lang:${lang}`))
+        )
+      );
+    });
+
+    this.bot.action(/^lang:([a-z]+)$/, async (ctx) => {
+      const code = ctx.match[1];
+      if (!isLanguage(code)) {
+        await ctx.answerCbQuery();
+        return;
+      }
+
+      this.sessionManager.setLanguage(ctx.from.id.toString(), code);
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(createTranslator(code)('lang.set', { language: LANGUAGES[code].name }));
+    });
+
+    // Grant command (admins): /grant <user_id> [user|admin]
+    this.bot.command('grant', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const adminId = ctx.from.id.toString();
+      if (!this.access.isAdmin(adminId)) {
+        await ctx.reply(t('access.adminOnly'));
+        return;
+      }
+
+      const [userId, role = 'user'] = ctx.message.text.split(' ').slice(1);
+      if (!userId) {
+        const grants = this.access
+          .getGrants()
+          .map((grant) => `• ${grant.userId} (${grant.role})`)
+          .join('\n');
+        await ctx.reply(t('grant.usage', { grants: grants || t('grant.none') }));
+        return;
+      }
+      if (!/^-?\d+$/.test(userId)) {
+        await ctx.reply(t('grant.invalidUser', { userId }));
+        return;
+      }
+      if (role !== 'user' && role !== 'admin') {
+        await ctx.reply(t('grant.invalidRole', { role }));
+        return;
+      }
+
+      await this.access.grant(userId, role, adminId);
+      await ctx.reply(t('grant.done', { userId, role }));
+    });
+
+    // Revoke command (admins): /revoke <user_id>
+    this.bot.command('revoke', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      if (!this.access.isAdmin(ctx.from.id.toString())) {
+        await ctx.reply(t('access.adminOnly'));
+        return;
+      }
+
+      const userId = ctx.message.text.split(' ').slice(1)[0];
+      if (!userId) {
+        await ctx.reply(t('revoke.usage'));
+        return;
+      }
+
+      const revoked = await this.access.revoke(userId);
+      if (this.access.isConfigured(userId)) {
+        await ctx.reply(t('revoke.configured', { userId }));
+        return;
+      }
+      await ctx.reply(revoked ? t('revoke.done', { userId }) : t('revoke.notGranted', { userId }));
+    });
+
+    // Reload command (admins): apply the current servers.json without a restart
+    this.bot.command('reload', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      if (!this.access.isAdmin(ctx.from.id.toString())) {
+        await ctx.reply(t('access.adminOnly'));
+        return;
+      }
+
+      let changes: MCPServerChanges;
+      try {
+        changes = await this.reloadServers();
+      } catch (error) {
+        await ctx.reply(t('reload.failed', { error: error instanceof Error ? error.message : String(error) }));
+        return;
+      }
+
+      const { added, removed, changed } = changes;
+      if (added.length + removed.length + changed.length === 0) {
+        await ctx.reply(t('reload.unchanged'));
+        return;
+      }
+      const list = (serverIds: string[]) => serverIds.join(', ') || t('reload.none');
+      await ctx.reply(t('reload.done', { added: list(added), removed: list(removed), changed: list(changed) }));
+    });
+
+    // Quota command
+    this.bot.command('quota', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const quota = this.limits.getQuota(ctx.from.id.toString());
+
+      let message = `${t('quota.title')}\n\n`;
+      if (quota.exempt) {
+        message += t('quota.exempt');
+        await ctx.reply(message);
+        return;
+      }
+
+      const limit = (value: number) => (value > 0 ? String(value) : t('quota.unlimited'));
+      message += `${t('quota.messages', { used: quota.messages.used, limit: limit(quota.messages.limit) })}\n`;
+      message += `${t('quota.toolCalls', { used: quota.toolCalls.used, limit: limit(quota.toolCalls.limit) })}\n`;
+      message += t('quota.tokens', {
+        used: quota.tokens.used,
+        limit: limit(quota.tokens.limit),
+        time: this.formatWait(quota.tokens.resetsInMs),
+      });
+
+      await ctx.reply(message);
+    });
+
+    // Jobs command
+    this.bot.command('jobs', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const jobs = this.jobs.getJobs(ctx.from.id.toString());
+
+      if (jobs.length === 0) {
+        await ctx.reply(t('jobs.none'));
+        return;
+      }
+
+      let message = `${t('jobs.header', { count: jobs.length })}\n`;
+      for (const job of jobs) {
+        message += `\n• #${job.id} ${job.label} - ${t(`jobs.state.${job.state}`)}`;
+        if (job.state === 'running' || (job.state === 'queued' && job.attempts > 0)) {
+          message += ` (${t('jobs.attempt', { attempt: job.attempts, maxAttempts: job.maxAttempts })})`;
+        }
+        if (job.lastError && job.state !== 'completed') {
+          message += `\n  ${t('servers.lastError', { error: job.lastError })}`;
+        }
+      }
+      message += `\n\n${t('jobs.cancelHint')}`;
+
+      await ctx.reply(message);
+    });
+
+    // Cancel command
+    this.bot.command('cancel', async (ctx) => {
+      const t = this.getTranslator(ctx);
+      const jobId = ctx.message.text.split(' ').slice(1)[0]?.replace(/^#/, '');
+      if (!jobId) {
+        await ctx.reply(t('cancel.usage'));
+        return;
+      }
+
+      const userId = ctx.from.id.toString();
+      if (this.jobs.cancel(userId, jobId)) {
+        await ctx.reply(t('cancel.done', { jobId }));
+        return;
+      }
+
+      const job = this.jobs.getJob(jobId);
+      if (job?.userId === userId) {
+        await ctx.reply(t('cancel.finished', { jobId, state: t(`jobs.state.${job.state}`) }));
+      } else {
+        await ctx.reply(t('cancel.notFound', { jobId }));
+      }
+    });
+
     // Reset command
     this.bot.command('reset', async (ctx) => {
-      const userId = ctx.from.id.toString();
-      this.sessionManager.clearHistory(userId);
-      await ctx.reply('✅ Historial de conversación limpiado!');
+      this.sessionManager.clearHistory(this.getScopeId(ctx));
+      await ctx.reply(this.getTranslator(ctx)('reset.done'));
     });
 
     // Handle documents (PDFs, etc.)
     this.bot.on('document', async (ctx) => {
       const userId = ctx.from.id.toString();
+      const scopeId = this.getScopeId(ctx);
       const document = ctx.message.document;
-      const caption = ctx.message.caption || '';
+      const caption = this.getAddressedText(ctx, ctx.message.caption || '', ctx.message.caption_entities);
+      const t = this.getTranslator(ctx);
+      if (caption === undefined) {
+        return;
+      }
+
+      if (!(await this.checkMessageLimit(ctx, userId))) {
+        return;
+      }
 
       try {
         const fileSizeMB = document.file_size ? document.file_size / (1024 * 1024) : 0;
         logger.info(`Receiving file: ${document.file_name} (${fileSizeMB.toFixed(2)} MB)`);
 
-        await ctx.reply(`📥 Downloading file (${fileSizeMB.toFixed(2)} MB)...`);
-
-        // Get file info
-        const file = await this.bot.telegram.getFile(document.file_id);
+        await ctx.reply(t('document.downloading', { size: fileSizeMB.toFixed(2) }));
 
         // Download file
-        const tempDir = join(process.cwd(), 'temp');
-        const localFilePath = join(tempDir, `${userId}_${document.file_name}`);
-        const fs = await import('fs/promises');
-
-        if (this.config.telegram.useLocalApi && this.config.telegram.apiUrl) {
-          // LOCAL API MODE: file.file_path is an absolute path inside the Docker container
-          // We need to map it to the host volume path since the app runs on the host
-          if (!file.file_path) {
-            throw new Error('File path is undefined in local API mode');
-          }
-          const containerBasePath = '/var/lib/telegram-bot-api';
-          const hostBasePath = process.env.TELEGRAM_LOCAL_DATA_DIR || `${process.env.HOME}/telegram-bot-api-data`;
-          const hostFilePath = file.file_path.replace(containerBasePath, hostBasePath);
-
-          logger.info(`Local API mode - container path: ${file.file_path}`);
-          logger.info(`Local API mode - host path: ${hostFilePath}`);
-          await fs.copyFile(hostFilePath, localFilePath);
-        } else {
-          // PUBLIC API MODE: Download file via HTTP
-          const fileUrl = `https://api.telegram.org/file/bot${this.config.telegram.botToken}/${file.file_path}`;
-          logger.info(`Downloading from: ${fileUrl}`);
-          const response = await fetch(fileUrl);
-          const buffer = await response.arrayBuffer();
-          await fs.writeFile(localFilePath, Buffer.from(buffer));
-        }
+        const localFilePath = join(process.cwd(), 'temp', `${userId}_${document.file_name}`);
+        await this.media.saveFile(document.file_id, localFilePath);
 
         logger.info(`File ready: ${localFilePath}`);
 
@@ -362,201 +1361,268 @@ export class TelegramBot {
           : `Translate this document: ${localFilePath}`;
 
         // Get available tools
-        const tools = this.mcpClient.getAllTools();
+        const tools = await this.getUserTools(scopeId, userId);
 
         if (tools.length === 0) {
-          await ctx.reply('No hay servidores MCP conectados. Por favor usa /connect para conectar primero a un servidor.');
+          await ctx.reply(t('document.noServers'));
           return;
         }
 
         // Check if there's a translate_pdf tool available
-        const hasTranslateTool = tools.some(t => t.name === 'translate_pdf');
-
-        if (hasTranslateTool) {
-          // Respond immediately
-          await ctx.reply(
-            `🔄 Tu documento está siendo traducido...\n\n` +
-            `📄 Archivo: ${document.file_name}\n` +
-            `📊 Tamaño: ${fileSizeMB.toFixed(2)} MB\n\n` +
-            `Te enviaré el documento traducido cuando esté listo. Esto puede tomar unos minutos.`
-          );
-
-          // Store chatId for sending the file later
-          const chatId = ctx.chat.id;
-
-          // Process translation in background (no await)
-          this.processTranslationInBackground(
-            userId,
-            chatId,
-            localFilePath,
-            query,
-            caption || 'Translate to Spanish'
-          ).catch((error) => {
-            logger.error(`Background translation failed for user ${userId}:`, error);
-            this.bot.telegram.sendMessage(
-              chatId,
-              `❌ Error en la traducción: ${error instanceof Error ? error.message : 'Error desconocido'}`
-            ).catch(err => logger.error('Failed to send error message:', err));
+        const translateTool = tools.find(t => t.name === 'translate_pdf');
+
+        if (translateTool) {
+          // The tool is called directly, so count it here instead of in the approval handler
+          const limit = this.limits.tryToolCall(userId);
+          if (!limit.allowed) {
+            await ctx.reply(this.describeLimit(limit, t));
+            return;
+          }
+
+          // Same policy and approval as the model's tool calls; waiting for the answer
+          // must not hold up the updates that carry it
+          const args = this.getTranslationArgs(localFilePath, caption || 'Translate to Spanish');
+          this.runDetached(ctx, async () => {
+            const decision = await this.checkToolPolicy(scopeId, userId, translateTool, args);
+            if (!decision.approved) {
+              logger.info(`Translation of ${document.file_name} was not approved: ${decision.reason}`);
+              await ctx.reply(t('document.notApproved'));
+              return;
+            }
+
+            const serverConfig = this.connections.getServerConfig(translateTool.serverId);
+            const job = this.jobs.enqueue({
+              kind: 'translate-pdf',
+              userId,
+              chatId: scopeId,
+              language: this.getLanguage(userId, ctx.from.language_code),
+              label: document.file_name || 'document',
+              serverId: translateTool.serverId,
+              toolName: translateTool.name,
+              args,
+              approved: resolveToolPolicy(serverConfig, translateTool.name) === 'ask',
+            });
+
+            await ctx.reply(
+              t('document.translating', {
+                fileName: document.file_name || '',
+                size: fileSizeMB.toFixed(2),
+                jobId: job.id,
+              })
+            );
           });
         } else {
           // No translation tool, process normally
-          await ctx.sendChatAction('typing');
-          const session = this.sessionManager.getSession(userId);
-
-          const userMessage: ConversationMessage = {
-            role: 'user',
-            content: query,
-            timestamp: Date.now(),
-          };
-          this.sessionManager.addMessage(userId, userMessage);
-
-          const llmResponse = await this.llmOrchestrator.processQuery(
-            query,
-            session.conversationHistory,
-            tools,
-            async (toolName, args) => {
-              logger.info(`Executing tool ${toolName} for user ${userId}`);
-              return await this.mcpClient.executeTool(toolName, args);
-            }
-          );
-
-          const assistantMessage: ConversationMessage = {
-            role: 'assistant',
-            content: llmResponse,
-            timestamp: Date.now(),
-          };
-          this.sessionManager.addMessage(userId, assistantMessage);
-
-          await ctx.reply(llmResponse);
+          this.runDetached(ctx, () => this.answerQuery(ctx, userId, query, tools));
         }
 
       } catch (error) {
         logger.error('Error processing document:', error);
-        await ctx.reply(`❌ Error: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+        await ctx.reply(t('error.generic', { message: error instanceof Error ? redact(error.message) : t('common.unknownError') }));
       }
     });
 
-    // Handle regular messages
-    this.bot.on('text', async (ctx) => {
-      // Skip if it's a command
-      if (ctx.message.text.startsWith('/')) {
+    // Photos go to the model as images, with their caption as the question
+    this.bot.on('photo', async (ctx) => {
+      const userId = ctx.from.id.toString();
+      const t = this.getTranslator(ctx);
+      const caption = this.getAddressedText(ctx, ctx.message.caption || '', ctx.message.caption_entities);
+      if (caption === undefined) {
+        return;
+      }
+      if (!this.config.llm.vision) {
+        await ctx.reply(t('media.noVision'));
         return;
       }
 
-      const userId = ctx.from.id.toString();
-      const query = ctx.message.text;
-
-      try {
-        // Show typing indicator
-        await ctx.sendChatAction('typing');
+      if (!(await this.checkMessageLimit(ctx, userId))) {
+        return;
+      }
 
-        logger.info(`Processing query from user ${userId}: ${query}`);
+      logger.info(`Processing photo from user ${userId}: ${caption}`);
 
-        // Get available tools
-        const tools = this.mcpClient.getAllTools();
+      this.runDetached(ctx, async () => {
+        await ctx.sendChatAction('typing');
+        const image = await this.media.downloadPhoto(ctx.message.photo);
+        const tools = await this.getUserTools(this.getScopeId(ctx), userId);
+        await this.answerQuery(ctx, userId, caption, tools, { attachments: [image] });
+      });
+    });
 
-        // Get session
-        const session = this.sessionManager.getSession(userId);
+    // Voice notes and audio files are transcribed, shown back and then handled like typed text
+    this.bot.on(['voice', 'audio'], async (ctx) => {
+      const userId = ctx.from.id.toString();
+      const scopeId = this.getScopeId(ctx);
+      const t = this.getTranslator(ctx);
+      const caption = this.getAddressedText(ctx, ctx.message.caption || '', ctx.message.caption_entities);
+      if (caption === undefined) {
+        return;
+      }
+      if (!this.media.canTranscribe()) {
+        await ctx.reply(t('media.noTranscription'));
+        return;
+      }
 
-        // Add user message to history
-        const userMessage: ConversationMessage = {
-          role: 'user',
-          content: query,
-          timestamp: Date.now(),
-        };
-        this.sessionManager.addMessage(userId, userMessage);
+      if (!(await this.checkMessageLimit(ctx, userId))) {
+        return;
+      }
 
-        // Store tool results to check for files
-        const toolResults: any[] = [];
+      const audio = 'voice' in ctx.message ? ctx.message.voice : ctx.message.audio;
+      logger.info(`Transcribing ${audio.duration}s of audio from user ${userId}`);
 
-        // Process query with LLM
-        const response = await this.llmOrchestrator.processQuery(
-          query,
-          session.conversationHistory,
-          tools,
-          async (toolName, args) => {
-            logger.info(`Executing tool ${toolName} for user ${userId}`);
-            await ctx.sendChatAction('typing');
-            const result = await this.mcpClient.executeTool(toolName, args);
-            toolResults.push({ toolName, result });
-            return result;
-          }
+      this.runDetached(ctx, async () => {
+        await ctx.sendChatAction('typing');
+        const mimeType = audio.mime_type || 'audio/ogg';
+        const transcript = await this.media.transcribe(scopeId, userId, audio.file_id, mimeType, (tokens) =>
+          this.limits.addTokens(userId, tokens)
         );
+        if (!transcript) {
+          await ctx.reply(t('media.noSpeech'));
+          return;
+        }
+        await ctx.reply(t('media.transcript', { text: transcript }));
 
-        // Add assistant response to history
-        const assistantMessage: ConversationMessage = {
-          role: 'assistant',
-          content: response,
-          timestamp: Date.now(),
-        };
-        this.sessionManager.addMessage(userId, assistantMessage);
-
-        // Send response
-        await ctx.reply(response, { parse_mode: 'Markdown' });
-
-        // Check if any tool returned a file to send
-        for (const { toolName, result } of toolResults) {
-          if (result && typeof result === 'object') {
-            const content = (result as any).content || [];
-            for (const item of content) {
-              if (item.type === 'text') {
-                try {
-                  const data = JSON.parse(item.text);
-                  if (data.translatedFile && existsSync(data.translatedFile)) {
-                    logger.info(`Sending file: ${data.translatedFile}`);
-                    await ctx.replyWithDocument({ source: data.translatedFile });
-                  }
-                } catch (err) {
-                  // Not JSON or file doesn't exist, skip
-                }
-              }
-            }
-          }
+        if (this.prompts.handleReply(scopeId, userId, transcript) || this.elicitations.handleReply(scopeId, userId, transcript)) {
+          return;
         }
-      } catch (error) {
-        logger.error('Error processing message:', error);
-        await ctx.reply(`❌ Error: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+
+        const tools = await this.getUserTools(scopeId, userId);
+        await this.answerQuery(ctx, userId, caption ? `${caption}\n\n${transcript}` : transcript, tools);
+      });
+    });
+
+    // Handle regular messages
+    this.bot.on('text', async (ctx) => {
+      // Skip if it's a command
+      if (ctx.message.text.startsWith('/')) {
+        return;
+      }
+
+      const userId = ctx.from.id.toString();
+      const scopeId = this.getScopeId(ctx);
+      const addressed = this.getAddressedText(ctx, ctx.message.text, ctx.message.entities);
+      const query = addressed ?? ctx.message.text;
+
+      // Answers to a prompt's argument questions or a server's elicitation are not queries
+      if (this.prompts.handleReply(scopeId, userId, query) || this.elicitations.handleReply(scopeId, userId, query)) {
+        return;
+      }
+      if (addressed === undefined) {
+        return;
       }
+
+      if (!(await this.checkMessageLimit(ctx, userId))) {
+        return;
+      }
+
+      logger.info(`Processing query from user ${userId}: ${query}`);
+
+      this.runDetached(ctx, async () => {
+        // Get available tools
+        const tools = await this.getUserTools(scopeId, userId);
+        await this.answerQuery(ctx, userId, query, tools);
+      });
     });
 
     // Error handling
     this.bot.catch((err, ctx) => {
       logger.error('Bot error:', err);
-      ctx.reply('Ocurrió un error al procesar tu solicitud.');
+      ctx.reply(this.getTranslator(ctx)('error.unexpected'));
     });
   }
 
   async start(): Promise<void> {
     logger.info('Starting Telegram bot...');
 
-    // Auto-connect to servers if configured
-    for (const serverConfig of this.config.mcp.servers) {
-      if (serverConfig.autoConnect) {
-        try {
-          logger.info(`Auto-connecting to ${serverConfig.name}...`);
-          await this.mcpClient.connect(serverConfig);
-        } catch (error) {
-          logger.error(`Failed to auto-connect to ${serverConfig.name}:`, error);
-        }
+    if (this.access.isOpen()) {
+      logger.warn('No ALLOWED_USERS, ALLOWED_CHATS or ADMIN_USERS configured: anyone can use this bot');
+    }
+
+    // Auto-connect to shared servers if configured
+    await this.connections.connectSharedServers();
+
+    // Pick up edits to servers.json while running; invalid edits are logged and ignored
+    this.stopWatchingServers = watchServersFile(this.config.mcp.serversPath, () => {
+      this.reloadServers().catch((error) => {
+        logger.error(`Ignoring the changes to ${this.config.mcp.serversPath}: ${error instanceof Error ? error.message : error}`);
+      });
+    });
+
+    // Bring back sessions from the previous run along with their servers
+    // with the access of the user who last used each of them
+    const restoredSessions = await this.sessionManager.restore();
+    for (const session of restoredSessions) {
+      const scopeId = session.userId;
+      const ownerId = session.ownerId ?? scopeId;
+      // Users whose access was taken away get no servers spawned for them
+      if (!this.access.isAuthorized(ownerId, getScopeChatId(scopeId))) {
+        continue;
       }
+      await this.connections.ensureConnected(scopeId, this.getAllowedServers(scopeId, ownerId));
     }
 
+    // Resume jobs left over from the previous run
+    this.jobs.load();
+    this.jobs.start();
+
     // Start session cleanup
     this.sessionManager.startCleanup();
 
-    // Launch bot
-    await this.bot.launch();
-    logger.info('Telegram bot started successfully!');
+    const { webhook, port } = this.config.http;
+    if (port) {
+      this.http = new HttpServer({
+        port,
+        webhook: webhook && {
+          path: webhook.path,
+          handler: this.bot.webhookCallback(webhook.path, { secretToken: webhook.secretToken }),
+        },
+        getReadiness: () => this.getReadiness(),
+      });
+      await this.http.start();
+    }
+
+    if (webhook) {
+      // Telegram pushes updates to the HTTP server; updates queued while the bot was down are kept
+      this.bot.botInfo = await this.bot.telegram.getMe();
+      await this.bot.telegram.setWebhook(webhook.url, { secret_token: webhook.secretToken });
+      logger.info(`Telegram bot started with webhook ${webhook.url}`);
+    } else {
+      // Launch bot; with long polling this only returns once polling stops
+      this.bot.launch(() => logger.info('Telegram bot started successfully!')).catch((error) => {
+        logger.error('Polling failed:', error);
+        this.stop('polling error');
+      });
+    }
 
     // Enable graceful stop
     process.once('SIGINT', () => this.stop('SIGINT'));
     process.once('SIGTERM', () => this.stop('SIGTERM'));
   }
 
+  // Stop taking updates, let the ones in flight finish, then shut everything down
   async stop(signal: string): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+    this.stopping = true;
     logger.info(`Received ${signal}, stopping bot...`);
-    this.bot.stop(signal);
-    await this.mcpClient.disconnectAll();
+
+    this.http?.drain();
+    if (!this.config.http.webhook) {
+      try {
+        this.bot.stop(signal);
+      } catch (error) {
+        // Polling never started
+        logger.warn('Failed to stop polling:', error);
+      }
+    }
+    await this.drain();
+    await this.http?.stop();
+
+    this.stopWatchingServers?.();
+    await this.jobs.close();
+    await this.connections.disconnectAll();
+    await this.sessionManager.close();
     logger.info('Bot stopped');
     process.exit(0);
   }
@@ -1,7 +1,21 @@
 import dotenv from 'dotenv';
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync } from 'fs';
+import { randomBytes } from 'crypto';
 import { join } from 'path';
-import type { AppConfig, MCPServerConfig } from '../types/index.js';
+import type {
+  AccessConfig,
+  AppConfig,
+  HttpConfig,
+  JobsConfig,
+  LLMConfig,
+  LLMProvider,
+  RateLimitConfig,
+  SessionStoreType,
+  TelegramParseMode,
+} from '../types/index.js';
+import { loadServers } from './servers.js';
+import { DEFAULT_SYSTEM_PROMPT } from '../mcp/system-prompt.js';
+import { isLanguage, SUPPORTED_LANGUAGES } from '../i18n/index.js';
 
 dotenv.config();
 
@@ -11,61 +25,155 @@ export function loadConfig(): AppConfig {
     throw new Error('TELEGRAM_BOT_TOKEN is required in environment variables');
   }
 
-  const aiProvider = (process.env.AI_PROVIDER || 'google') as 'google' | 'anthropic' | 'openai';
+  const aiProvider = (process.env.AI_PROVIDER || 'google') as LLMProvider;
 
   let apiKey: string;
   let model: string;
+  let baseUrl: string | undefined;
+  let organization: string | undefined;
+  let project: string | undefined;
 
   switch (aiProvider) {
     case 'google':
       apiKey = process.env.GOOGLE_API_KEY || '';
       model = process.env.GOOGLE_MODEL || 'gemini-1.5-pro';
+      baseUrl = process.env.GOOGLE_BASE_URL;
       break;
     case 'anthropic':
       apiKey = process.env.ANTHROPIC_API_KEY || '';
       model = process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-20241022';
+      baseUrl = process.env.ANTHROPIC_BASE_URL;
       break;
     case 'openai':
       apiKey = process.env.OPENAI_API_KEY || '';
       model = process.env.OPENAI_MODEL || 'gpt-4-turbo';
+      baseUrl = process.env.OPENAI_BASE_URL;
+      organization = process.env.OPENAI_ORGANIZATION;
+      project = process.env.OPENAI_PROJECT;
+      break;
+    case 'openai-compatible':
+      apiKey = process.env.OPENAI_COMPATIBLE_API_KEY || '';
+      model = process.env.OPENAI_COMPATIBLE_MODEL || '';
+      baseUrl = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseUrl) {
+        throw new Error('OPENAI_COMPATIBLE_BASE_URL is required for the openai-compatible provider');
+      }
+      if (!model) {
+        throw new Error('OPENAI_COMPATIBLE_MODEL is required for the openai-compatible provider');
+      }
       break;
     default:
       throw new Error(`Unsupported AI provider: ${aiProvider}`);
   }
 
-  if (!apiKey) {
+  // Self-hosted model servers usually run without authentication
+  if (!apiKey && aiProvider !== 'openai-compatible') {
     throw new Error(`API key for ${aiProvider} is required`);
   }
 
-  // Load MCP servers from servers.json file or environment variable
-  const servers: MCPServerConfig[] = [];
-
-  // Try to load from servers.json file
-  const serversFilePath = join(process.cwd(), 'servers.json');
-  if (existsSync(serversFilePath)) {
-    try {
-      const fileContent = readFileSync(serversFilePath, 'utf-8');
-      const parsed = JSON.parse(fileContent);
-      if (parsed.servers && Array.isArray(parsed.servers)) {
-        servers.push(...parsed.servers);
-        console.log(`Loaded ${servers.length} MCP servers from servers.json`);
-      }
-    } catch (error) {
-      console.error('Failed to parse servers.json:', error);
+  // System prompt template: inline, from a file, or the built-in default
+  let systemPrompt = DEFAULT_SYSTEM_PROMPT;
+  if (process.env.SYSTEM_PROMPT_FILE) {
+    systemPrompt = readFileSync(process.env.SYSTEM_PROMPT_FILE, 'utf-8');
+  } else if (process.env.SYSTEM_PROMPT) {
+    systemPrompt = process.env.SYSTEM_PROMPT.replace(/\\n/g, '\n');
+  }
+
+  const llm: LLMConfig = {
+    provider: aiProvider,
+    model,
+    apiKey,
+    baseUrl,
+    organization,
+    project,
+    maxTokens: parseInt(process.env.MAX_TOKENS || '4096'),
+    temperature: parseFloat(process.env.TEMPERATURE || '0.7'),
+    contextTokenBudget: parseInt(process.env.CONTEXT_TOKEN_BUDGET || '8000'),
+    systemPrompt,
+    samplingModels: parseList(process.env.SAMPLING_MODELS),
+    // What most models of each provider can do; LLM_VISION / LLM_AUDIO say otherwise for a given model
+    vision: parseFlag(process.env.LLM_VISION, aiProvider !== 'openai-compatible'),
+    audio: parseFlag(process.env.LLM_AUDIO, aiProvider === 'google'),
+  };
+
+  // MCP servers from servers.json, overridden by id with those in MCP_SERVERS
+  const serversPath = process.env.SERVERS_FILE || join(process.cwd(), 'servers.json');
+  const servers = loadServers(serversPath);
+  console.log(`Loaded ${servers.length} MCP servers`);
+
+  // `server_id:tool_name` of the tool that transcribes voice messages
+  let transcriptionTool: AppConfig['mcp']['transcriptionTool'];
+  if (process.env.TRANSCRIPTION_TOOL) {
+    const [serverId, toolName] = process.env.TRANSCRIPTION_TOOL.split(':');
+    if (!serverId || !toolName) {
+      throw new Error(`TRANSCRIPTION_TOOL must look like server_id:tool_name, got: ${process.env.TRANSCRIPTION_TOOL}`);
     }
+    transcriptionTool = { serverId, toolName };
   }
 
-  // Also support loading from environment variable (takes precedence)
-  const serversJson = process.env.MCP_SERVERS;
-  if (serversJson) {
-    try {
-      const parsed = JSON.parse(serversJson);
-      if (Array.isArray(parsed)) {
-        servers.push(...parsed);
-      }
-    } catch (error) {
-      console.error('Failed to parse MCP_SERVERS:', error);
+  const dataDir = process.env.DATA_DIR || join(process.cwd(), 'data');
+
+  const sessionStore = (process.env.SESSION_STORE || 'memory') as SessionStoreType;
+  if (!['memory', 'file', 'sqlite'].includes(sessionStore)) {
+    throw new Error(`Unsupported SESSION_STORE: ${sessionStore}`);
+  }
+  const sessionStorePath =
+    process.env.SESSION_STORE_PATH || join(dataDir, sessionStore === 'sqlite' ? 'sessions.db' : 'sessions.json');
+
+  const access: AccessConfig = {
+    allowedUsers: parseList(process.env.ALLOWED_USERS),
+    allowedChats: parseList(process.env.ALLOWED_CHATS),
+    adminUsers: parseList(process.env.ADMIN_USERS),
+    grantsPath: process.env.ACCESS_GRANTS_PATH || join(dataDir, 'access.json'),
+  };
+
+  const limits: RateLimitConfig = {
+    messagesPerMinute: parseInt(process.env.RATE_LIMIT_MESSAGES_PER_MINUTE || '0'),
+    toolCallsPerHour: parseInt(process.env.RATE_LIMIT_TOOL_CALLS_PER_HOUR || '0'),
+    dailyTokenBudget: parseInt(process.env.DAILY_TOKEN_BUDGET || '0'),
+  };
+
+  const jobs: JobsConfig = {
+    path: process.env.JOBS_PATH || join(dataDir, 'jobs.json'),
+    maxConcurrentPerUser: parseInt(process.env.JOBS_MAX_CONCURRENT_PER_USER || '1'),
+    maxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '3'),
+  };
+
+  // Without WEBHOOK_URL updates are polled; HTTP_PORT alone still serves the health endpoints
+  let webhook: HttpConfig['webhook'];
+  if (process.env.WEBHOOK_URL) {
+    if (!URL.canParse(process.env.WEBHOOK_URL)) {
+      throw new Error(`WEBHOOK_URL is not a valid URL: ${process.env.WEBHOOK_URL}`);
     }
+    // Telegram accepts 1-256 of A-Z, a-z, 0-9, _ and -; a random one works unless several instances share the webhook
+    const secretToken = process.env.WEBHOOK_SECRET_TOKEN || randomBytes(32).toString('hex');
+    if (!/^[\w-]{1,256}$/.test(secretToken)) {
+      throw new Error('WEBHOOK_SECRET_TOKEN may only contain letters, digits, "_" and "-" (at most 256)');
+    }
+    webhook = {
+      url: process.env.WEBHOOK_URL,
+      path: process.env.WEBHOOK_PATH || new URL(process.env.WEBHOOK_URL).pathname,
+      secretToken,
+    };
+  }
+
+  const http: HttpConfig = {
+    port: parseInt(process.env.HTTP_PORT || (webhook ? '8080' : '0')),
+    webhook,
+    drainTimeoutSeconds: parseInt(process.env.DRAIN_TIMEOUT_SECONDS || '25'),
+  };
+  if (webhook && !http.port) {
+    throw new Error('HTTP_PORT is required with WEBHOOK_URL');
+  }
+
+  const defaultLanguage = process.env.DEFAULT_LANGUAGE || 'es';
+  if (!isLanguage(defaultLanguage)) {
+    throw new Error(`Unsupported DEFAULT_LANGUAGE: ${defaultLanguage}. Use one of: ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+
+  const parseMode = (process.env.TELEGRAM_PARSE_MODE || 'HTML') as TelegramParseMode;
+  if (!['HTML', 'MarkdownV2'].includes(parseMode)) {
+    throw new Error(`Unsupported TELEGRAM_PARSE_MODE: ${parseMode}. Use HTML or MarkdownV2`);
   }
 
   const useLocalApi = process.env.USE_LOCAL_API === 'true';
@@ -79,19 +187,47 @@ export function loadConfig(): AppConfig {
       botToken: telegramToken,
       useLocalApi,
       apiUrl: useLocalApi ? apiUrl : undefined,
+      streamResponses: process.env.STREAM_RESPONSES === 'true',
+      parseMode,
+      replyFileThreshold: parseInt(process.env.REPLY_FILE_THRESHOLD || '0'),
+      allowedFileDirs: parseList(process.env.ALLOWED_FILE_DIRS || join(process.cwd(), 'temp')),
     },
-    llm: {
-      provider: aiProvider,
-      model,
-      apiKey,
-      maxTokens: parseInt(process.env.MAX_TOKENS || '4096'),
-      temperature: parseFloat(process.env.TEMPERATURE || '0.7'),
-    },
+    llm,
     mcp: {
       servers,
+      serversPath,
+      toolTimeoutSeconds: parseInt(process.env.TOOL_TIMEOUT_SECONDS || '300'),
+      transcriptionTool,
+    },
+    sessions: {
+      store: {
+        type: sessionStore,
+        path: sessionStorePath,
+      },
+      timeoutMinutes: parseInt(process.env.SESSION_TIMEOUT_MINUTES || '30'),
+      preferencesPath: process.env.PREFERENCES_PATH || join(dataDir, 'preferences.json'),
     },
+    access,
+    limits,
+    jobs,
+    http,
+    dataDir,
+    defaultLanguage,
     logging: {
       level: process.env.LOG_LEVEL || 'info',
     },
   };
 }
+
+// Comma separated values such as Telegram ids ("123456, -100987654") or paths
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+// `true` / `false`, or the default when unset
+function parseFlag(value: string | undefined, defaultValue: boolean): boolean {
+  return value === undefined || value === '' ? defaultValue : value === 'true';
+}
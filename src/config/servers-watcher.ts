@@ -0,0 +1,35 @@
+import { watch, type FSWatcher } from 'fs';
+import { basename, dirname } from 'path';
+import logger from '../utils/logger.js';
+
+const DEBOUNCE_MS = 500;
+
+/**
+ * Call onChange whenever the servers file is written. The directory is watched
+ * rather than the file, so editors that save by replacing the file are seen
+ * too; bursts of events are merged into one call. Returns a stop function.
+ */
+export function watchServersFile(path: string, onChange: () => void): () => void {
+  const file = basename(path);
+  let timer: NodeJS.Timeout | undefined;
+  let watcher: FSWatcher;
+
+  try {
+    watcher = watch(dirname(path), (_event, filename) => {
+      if (filename !== file) {
+        return;
+      }
+      clearTimeout(timer);
+      timer = setTimeout(onChange, DEBOUNCE_MS);
+    });
+  } catch (error) {
+    logger.error(`Failed to watch ${path}, use /reload after editing it:`, error);
+    return () => undefined;
+  }
+
+  watcher.on('error', (error) => logger.error(`Stopped watching ${path}:`, error));
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { readFileSync, existsSync } from 'fs';
+import { basename } from 'path';
+import type { MCPServerConfig } from '../types/index.js';
+import { addSecrets, interpolate } from '../utils/secrets.js';
+
+const policySchema = z.enum(['allow', 'ask', 'deny']);
+const stringMapSchema = z.record(z.string());
+const secondsSchema = z.number().positive();
+
+// Unknown keys are rejected so that typos such as `autoconnect` do not go unnoticed
+const serverSchema = z
+  .object({
+    id: z.string().regex(/^[\w-]+$/, 'only letters, digits, "_" and "-" are allowed'),
+    name: z.string().min(1),
+    transport: z.enum(['stdio', 'http', 'sse']).optional(),
+    command: z.string().min(1).optional(),
+    args: z.array(z.string()).optional(),
+    env: stringMapSchema.optional(),
+    url: z.string().optional(),
+    headers: stringMapSchema.optional(),
+    authToken: z.string().optional(),
+    autoConnect: z.boolean().optional(),
+    shared: z.boolean().optional(),
+    userEnv: z.record(stringMapSchema).optional(),
+    toolPolicy: policySchema.optional(),
+    toolPolicies: z.record(policySchema).optional(),
+    allowedUsers: z.array(z.string()).optional(),
+    allowedRoles: z.array(z.enum(['admin', 'user'])).optional(),
+    toolTimeout: secondsSchema.optional(),
+    toolTimeouts: z.record(secondsSchema).optional(),
+    backgroundTools: z.array(z.string()).optional(),
+    samplingPolicy: policySchema.optional(),
+  })
+  .strict()
+  .superRefine((server, ctx) => {
+    const transport = server.transport || 'stdio';
+    if (transport === 'stdio' && !server.command) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['command'], message: 'required for stdio servers' });
+    }
+    if (transport !== 'stdio' && !server.url) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: `required for ${transport} servers` });
+    }
+  })
+  .transform((server, ctx) => {
+    // What env, url, headers, authToken and userEnv resolve to is kept out of logs and replies
+    const secrets: string[] = [];
+    const resolve = <T>(value: T, field: string, resolved: string[] = []): T =>
+      resolveReferences(value, [field], server.id, ctx, resolved) as T;
+
+    const resolved = {
+      ...server,
+      command: resolve(server.command, 'command'),
+      args: resolve(server.args, 'args'),
+      env: resolve(server.env, 'env', secrets),
+      url: resolve(server.url, 'url', secrets),
+      headers: resolve(server.headers, 'headers', secrets),
+      authToken: resolve(server.authToken, 'authToken', secrets),
+      userEnv: resolve(server.userEnv, 'userEnv', secrets),
+    };
+    if (resolved.authToken) {
+      secrets.push(resolved.authToken);
+    }
+    addSecrets(secrets);
+
+    if (resolved.url && !URL.canParse(resolved.url)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: 'Invalid url' });
+    }
+    return resolved;
+  });
+
+// Interpolate every string in a value, reporting unresolvable references at their path
+function resolveReferences(
+  value: unknown,
+  path: (string | number)[],
+  serverId: string,
+  ctx: z.RefinementCtx,
+  resolved: string[]
+): unknown {
+  if (typeof value === 'string') {
+    try {
+      const result = interpolate(value);
+      resolved.push(...result.resolved);
+      return result.value;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `${message} (server ${serverId})` });
+      return value;
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveReferences(item, [...path, index], serverId, ctx, resolved));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveReferences(item, [...path, key], serverId, ctx, resolved)])
+    );
+  }
+  return value;
+}
+
+const serverListSchema = z.array(serverSchema).superRefine((servers, ctx) => {
+  const seen = new Set<string>();
+  servers.forEach((server, index) => {
+    if (seen.has(server.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `duplicate id "${server.id}"` });
+    }
+    seen.add(server.id);
+  });
+});
+
+const serversFileSchema = z.object({ servers: serverListSchema });
+
+/**
+ * Read the MCP servers from `servers.json` and the `MCP_SERVERS` environment
+ * variable. Entries of the variable replace file entries with the same id.
+ * References such as `${GITHUB_TOKEN}` are resolved on the way (see
+ * utils/secrets). Throws with every problem found, one per line, when either
+ * is invalid.
+ */
+export function loadServers(path: string): MCPServerConfig[] {
+  const servers = new Map<string, MCPServerConfig>();
+
+  if (existsSync(path)) {
+    for (const server of parse(serversFileSchema, readFileSync(path, 'utf-8'), basename(path)).servers) {
+      servers.set(server.id, server);
+    }
+  }
+
+  const serversJson = process.env.MCP_SERVERS;
+  if (serversJson) {
+    for (const server of parse(serverListSchema, serversJson, 'MCP_SERVERS')) {
+      servers.set(server.id, server);
+    }
+  }
+
+  return Array.from(servers.values());
+}
+
+function parse<T>(schema: z.ZodType<T>, json: string, source: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `  ${formatPath(issue.path)}: ${issue.message}`);
+    throw new Error(`Invalid ${source}:\n${issues.join('\n')}`);
+  }
+  return result.data;
+}
+
+// e.g. `servers[1].toolPolicies.write_file`
+function formatPath(path: (string | number)[]): string {
+  return path.map((key, index) => (typeof key === 'number' ? `[${key}]` : index > 0 ? `.${key}` : key)).join('') || '(root)';
+}
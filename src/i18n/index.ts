@@ -0,0 +1,42 @@
+import { es } from './locales/es.js';
+import { en } from './locales/en.js';
+import { pt } from './locales/pt.js';
+
+export type Language = 'es' | 'en' | 'pt';
+
+export type MessageKey = keyof typeof es;
+
+export type MessageCatalog = Record<MessageKey, string>;
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const LANGUAGES: Record<Language, { name: string; englishName: string }> = {
+  es: { name: 'Español', englishName: 'Spanish' },
+  en: { name: 'English', englishName: 'English' },
+  pt: { name: 'Português', englishName: 'Portuguese' },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as Language[];
+
+const catalogs: Record<Language, MessageCatalog> = { es, en, pt };
+
+export function isLanguage(code: string): code is Language {
+  return (SUPPORTED_LANGUAGES as string[]).includes(code);
+}
+
+// Map a Telegram language_code such as `pt-br` or `en` to a supported language
+export function resolveLanguage(code: string | undefined, fallback: Language): Language {
+  const base = code?.toLowerCase().split('-')[0];
+  return base && isLanguage(base) ? base : fallback;
+}
+
+export function t(language: Language, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = catalogs[language][key] ?? es[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+export function createTranslator(language: Language): Translator {
+  return (key, params) => t(language, key, params);
+}
@@ -0,0 +1,196 @@
+import type { MessageCatalog } from '../index.js';
+
+export const en: MessageCatalog = {
+  'common.unknownError': 'Unknown error',
+  'error.generic': '❌ Error: {message}',
+  'error.unexpected': 'Something went wrong while processing your request.',
+
+  'start.welcome':
+    'Welcome to the Telegram MCP Client! 🤖\n\nI am an AI assistant powered by the Model Context Protocol.\n\n{commands}\n\nYou can send me:\n- Text messages\n- PDF documents (I can translate them!)\n\nJust upload a file and tell me what you want to do with it!',
+  'help.text': '{commands}\n\nJust send me a message to chat! In groups, mention me or reply to one of my messages.',
+  'help.commands':
+    'Available commands:\n/start - Welcome message\n/help - Show this help\n/connect <server_id> - Connect to an MCP server\n/disconnect <server_id> - Disconnect from a server\n/servers - List connected servers and available tools\n/resources [server_id] - Browse the resources of your servers\n/read <uri> - Show a resource\n/pin <uri> - Pin a resource into the context\n/unpin [uri] - Unpin resources\n/prompts - List the prompts of your servers\n/prompt <name> - Run a prompt\n/context - Show context usage and summary\n/jobs - List your background jobs\n/cancel <id> - Cancel a job\n/quota - Show your usage limits\n/lang - Change language\n/reset - Clear conversation history',
+
+  'access.denied': '🚫 You do not have access to this bot. Ask an admin to grant it using your id: {userId}',
+  'access.adminOnly': '🚫 This command is for admins only.',
+  'access.serverDenied': '🚫 You are not allowed to use the server {serverId}.',
+  'group.adminOnly': '🚫 In groups only the chat administrators can choose the servers.',
+  'admin.commands':
+    'Admin commands:\n/grant <user_id> [user|admin] - Give a user access\n/revoke <user_id> - Take a granted access away\n/reload - Apply changes to servers.json',
+  'grant.usage': 'Usage: /grant <user_id> [user|admin]\n\nGranted access:\n{grants}',
+  'grant.none': '(none)',
+  'grant.invalidRole': 'Invalid role: {role}. Use user or admin.',
+  'grant.invalidUser': 'Invalid user id: {userId}',
+  'grant.done': '✅ {userId} now has {role} access.',
+  'revoke.usage': 'Usage: /revoke <user_id>',
+  'revoke.done': '✅ Access of {userId} revoked.',
+  'revoke.notGranted': '{userId} has no access granted with /grant.',
+  'revoke.configured': '⚠️ {userId} is in the bot configuration (ALLOWED_USERS/ADMIN_USERS) and keeps access until removed from there.',
+  'reload.done': '✅ Servers reloaded.\nAdded: {added}\nRemoved: {removed}\nChanged: {changed}',
+  'reload.unchanged': '✅ Servers reloaded, nothing changed.',
+  'reload.failed': '❌ The server configuration was not applied:\n{error}',
+  'reload.none': '(none)',
+
+  'connect.usage': 'Usage: /connect <server_id>\n\nAvailable servers: {servers}',
+  'connect.connecting': 'Connecting to {serverId}...',
+  'connect.notFound': 'Server {serverId} not found in the configuration.',
+  'connect.success': '✅ Connected to {name}!\n\nAvailable tools ({count}):\n{tools}',
+  'connect.failed': '❌ Failed to connect to {serverId}: {message}',
+
+  'disconnect.usage': 'Usage: /disconnect <server_id>',
+  'disconnect.success': '✅ Disconnected from {serverId}',
+  'disconnect.failed': '❌ Failed to disconnect: {message}',
+
+  'servers.none': 'No servers connected. Use /connect <server_id> to connect to a server.',
+  'servers.header': '📡 Connected Servers ({count}):',
+  'servers.shared': 'shared',
+  'servers.personal': 'personal',
+  'servers.lastError': 'Last error: {error}',
+  'servers.reconnecting': '🔄 reconnecting (attempt {attempts})',
+  'servers.failed': '❌ failed',
+  'servers.notConnected': '⚠️ not connected',
+  'servers.connected': '✅ connected, {count} tools:',
+
+  'status.reconnecting': '⚠️ Lost connection to {name}{error}. Retrying...',
+  'status.connected': '✅ {name} is available again.',
+  'status.failed': '❌ Could not reconnect to {name}: {error}\n\nUse /connect {serverId} to try again.',
+
+  'resources.none': 'Your servers have no resources.',
+  'resources.unknownServer': 'The server {serverId} is not one of your active servers.',
+  'resources.header': '📚 Resources ({count}), page {page}/{pages}:',
+  'resources.expired': 'This list is no longer available. Use /resources again.',
+  'resources.server': 'Server: {serverId}',
+  'resources.type': 'Type: {mimeType}',
+  'resources.read': '📖 Read',
+  'resources.pin': '📌 Pin',
+  'resources.unpin': '✖️ Unpin',
+  'resources.pinned': '📌 {name} pinned: its contents will be included with your next questions.',
+  'resources.alreadyPinned': '{name} was already pinned.',
+  'resources.unpinned': '✖️ {name} unpinned.',
+  'resources.notPinned': '{uri} is not pinned.',
+  'resources.nonePinned': 'You have no pinned resources.',
+  'resources.pinnedHeader': '📌 Pinned resources ({count}):',
+  'resources.notFound': 'None of your servers has the resource {uri}.',
+  'resources.empty': 'The resource {uri} is empty.',
+  'resources.readUsage': 'Usage: /read <uri>\n\nUse /resources to see the available resources.',
+  'resources.pinUsage': 'Usage: /pin <uri>\n\nUse /resources to see the available resources.',
+  'prompts.none': 'Your servers have no prompts.',
+  'prompts.header': '💬 Prompts ({count}):',
+  'prompts.arguments': 'Arguments: {arguments}',
+  'prompts.usage': 'Usage: /prompt <name> [argument=value ...]\nArguments marked with * are required; the missing ones are asked for.',
+  'prompts.notFound': 'None of your servers has the prompt {name}. Use /prompts to see the available prompts.',
+  'prompts.ambiguous': 'Several servers have the prompt {name}. Use one of: {options}',
+  'prompts.ask': '✏️ {prompt}: send the value of {argument}',
+  'prompts.cancel': '✖️ Cancel',
+  'prompts.cancelled': 'Prompt {name} cancelled.',
+  'prompts.timedOut': 'Prompt {name} cancelled: no answer in time.',
+  'prompts.inactive': 'This prompt is no longer waiting for an answer.',
+  'prompts.noUserMessage': 'The prompt has no user message to send.',
+
+  'context.title': '🧠 Conversation context',
+  'context.tokens': 'Estimated tokens: {used} / {budget} ({percent}%)',
+  'context.messages': '• Recent messages: {count} ({tokens} tokens)',
+  'context.summaryTokens': '• Summary: {tokens} tokens',
+  'context.summary': '📝 Summary of the earlier conversation:\n{summary}',
+  'context.noSummary': 'No summary yet: the whole conversation fits in the context.',
+
+  'reset.done': '✅ Conversation history cleared!',
+
+  'lang.current': '🌐 Current language: {language}\n\nChoose a language:',
+  'lang.set': '✅ Language changed to {language}.',
+  'lang.unsupported': 'Unsupported language: {code}. Available: {supported}',
+
+  'limits.messages': '⏳ You are sending too many messages (at most {limit} per minute). Try again in {time}.',
+  'limits.toolCalls': '⏳ You reached the limit of {limit} tool calls per hour. Try again in {time}.',
+  'limits.tokens': '⏳ You used up your daily budget of {limit} tokens. Try again in {time}.',
+  'quota.title': '📊 Your quota',
+  'quota.exempt': 'You are an admin: limits do not apply.',
+  'quota.messages': '• Messages this minute: {used} / {limit}',
+  'quota.toolCalls': '• Tool calls this hour: {used} / {limit}',
+  'quota.tokens': '• Tokens today: {used} / {limit} (resets in {time})',
+  'quota.unlimited': 'unlimited',
+
+  'document.downloading': '📥 Downloading file ({size} MB)...',
+  'document.noServers': 'No MCP servers connected. Please use /connect to connect to a server first.',
+  'document.notApproved': '🚫 The translation was not started: the tool is disabled or the call was not approved.',
+  'document.translating':
+    '🔄 Your document is being translated...\n\n📄 File: {fileName}\n📊 Size: {size} MB\n⚙️ Job: #{jobId}\n\nI will send you the translated document when it is ready. This may take a few minutes. Use /jobs to follow it or /cancel {jobId} to stop it.',
+  'media.noVision': '🖼️ The current model cannot see images. Describe the photo in a text message instead.',
+  'media.noTranscription': '🎙️ Voice messages are not supported: no transcription tool is configured and the model does not take audio.',
+  'media.noSpeech': '🎙️ No speech was found in that message.',
+  'media.transcript': '🎙️ “{text}”',
+
+  'translation.done': '✅ Translation complete!\n\n📄 Original: {fileName}\n📊 Size: {size}',
+  'translation.fileNotFound': 'Translated file not found: {path}',
+
+  'jobs.none': 'You have no background jobs.',
+  'jobs.header': '⚙️ Your jobs ({count}):',
+  'jobs.state.queued': '⏳ queued',
+  'jobs.state.running': '🔄 running',
+  'jobs.state.completed': '✅ completed',
+  'jobs.state.failed': '❌ failed',
+  'jobs.state.cancelled': '🚫 cancelled',
+  'jobs.attempt': 'attempt {attempt}/{maxAttempts}',
+  'jobs.cancelHint': 'Use /cancel <id> to stop a job.',
+  'jobs.completed': '✅ Job #{jobId} ({label}) completed.',
+  'jobs.retrying': '⚠️ Attempt {attempt}/{maxAttempts} of job #{jobId} ({label}) failed: {error}\n\nRetrying in {time}...',
+  'jobs.failed':
+    '❌ Job #{jobId} ({label}) failed after {attempts} attempts.\n\nError: {error}\n\nPlease try again later or contact support.',
+  'cancel.usage': 'Usage: /cancel <id>\n\nUse /jobs to see your jobs.',
+  'cancel.done': '🚫 Job #{jobId} cancelled.',
+  'cancel.finished': 'Job #{jobId} has already finished: {state}',
+  'cancel.notFound': 'You have no job #{jobId}.',
+
+  'approval.prompt': '🔐 The assistant wants to run {tool}\n\nArguments:\n{args}',
+  'approval.sampling': '🧠 {server} wants to use the AI model (up to {maxTokens} tokens)\n\n{request}',
+  'approval.approve': '✅ Approve',
+  'approval.deny': '🚫 Deny',
+  'approval.always': '♾️ Always allow',
+  'approval.approved': '✅ Approved',
+  'approval.denied': '🚫 Denied',
+  'approval.alwaysApproved': '✅ Approved (always)',
+  'approval.timedOut': '⌛ No answer, denied',
+  'approval.cancelled': '⏹️ Cancelled with the request',
+  'approval.inactive': 'This request is no longer active.',
+  'approval.notYours': 'Only the person who asked can answer.',
+
+  'elicitation.request': '❓ {server} needs more information:\n\n{message}',
+  'elicitation.answer': '✏️ Answer',
+  'elicitation.accept': '✅ Accept',
+  'elicitation.decline': '🙅 Decline',
+  'elicitation.cancel': '✖️ Cancel',
+  'elicitation.field': '({step}/{total}) {name}',
+  'elicitation.typeText': 'Send the answer as a message.',
+  'elicitation.typeNumber': 'Send a number as a message.',
+  'elicitation.chooseMany': 'Choose any number of options, then press Done.',
+  'elicitation.optional': 'Optional.',
+  'elicitation.yes': 'Yes',
+  'elicitation.no': 'No',
+  'elicitation.done': '☑️ Done',
+  'elicitation.skip': '⏭️ Skip',
+  'elicitation.useButtons': 'Please answer with the buttons.',
+  'elicitation.invalidNumber': 'That is not a number. Try again.',
+  'elicitation.notInteger': 'It has to be a whole number. Try again.',
+  'elicitation.tooSmall': 'It has to be at least {min}. Try again.',
+  'elicitation.tooLarge': 'It has to be at most {max}. Try again.',
+  'elicitation.tooShort': 'It has to be at least {min} characters long. Try again.',
+  'elicitation.tooLong': 'It has to be at most {max} characters long. Try again.',
+  'elicitation.invalidFormat': 'That is not a valid {format}. Try again.',
+  'elicitation.selectMin': 'Choose at least {min} options.',
+  'elicitation.selectMax': 'Choose at most {max} options.',
+  'elicitation.sent': '✅ Answer sent.',
+  'elicitation.declined': '🙅 Request declined.',
+  'elicitation.cancelled': '✖️ Request cancelled.',
+  'elicitation.timedOut': '⌛ No answer in time, request cancelled.',
+  'elicitation.expired': 'The server no longer needs this information.',
+  'elicitation.inactive': 'This request is no longer active.',
+  'progress.running': '🔧 Running {tool}…',
+  'progress.steps': '{progress} done',
+  'progress.cancel': '✖️ Cancel',
+  'progress.cancelled': '✖️ {tool} cancelled.',
+  'progress.stopped': 'Stopped: the tool call was cancelled.',
+  'progress.inactive': 'This tool call has already finished.',
+  'stream.thinking': '⏳ Thinking…',
+  'stream.callingTool': '🔧 calling {tool}…',
+  'stream.empty': '(no answer)',
+};
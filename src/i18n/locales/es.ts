@@ -0,0 +1,195 @@
+// Spanish is the reference catalog: every other locale must define the same keys
+export const es = {
+  'common.unknownError': 'Error desconocido',
+  'error.generic': '❌ Error: {message}',
+  'error.unexpected': 'Ocurrió un error al procesar tu solicitud.',
+
+  'start.welcome':
+    '¡Bienvenido al Cliente MCP de Telegram! 🤖\n\nSoy un asistente de IA impulsado por el Protocolo de Contexto de Modelo.\n\n{commands}\n\nPuedes enviarme:\n- Mensajes de texto\n- Documentos PDF (¡puedo traducirlos!)\n\n¡Simplemente sube un archivo y dime qué quieres hacer con él!',
+  'help.text': '{commands}\n\n¡Simplemente envíame un mensaje para chatear! En los grupos, mencióname o responde a uno de mis mensajes.',
+  'help.commands':
+    'Comandos disponibles:\n/start - Mensaje de bienvenida\n/help - Mostrar esta ayuda\n/connect <server_id> - Conectar a un servidor MCP\n/disconnect <server_id> - Desconectar de un servidor\n/servers - Listar servidores conectados y herramientas disponibles\n/resources [server_id] - Explorar los recursos de tus servidores\n/read <uri> - Ver un recurso\n/pin <uri> - Fijar un recurso en el contexto\n/unpin [uri] - Desfijar recursos\n/prompts - Ver los prompts de tus servidores\n/prompt <nombre> - Ejecutar un prompt\n/context - Ver el uso de contexto y el resumen\n/jobs - Ver tus tareas en segundo plano\n/cancel <id> - Cancelar una tarea\n/quota - Ver tus límites de uso\n/lang - Cambiar el idioma\n/reset - Limpiar historial de conversación',
+
+  'access.denied': '🚫 No tienes acceso a este bot. Pide a un administrador que te lo conceda con tu id: {userId}',
+  'access.adminOnly': '🚫 Este comando es solo para administradores.',
+  'access.serverDenied': '🚫 No tienes permiso para usar el servidor {serverId}.',
+  'group.adminOnly': '🚫 En los grupos solo los administradores del chat pueden elegir los servidores.',
+  'admin.commands':
+    'Comandos de administración:\n/grant <user_id> [user|admin] - Dar acceso a un usuario\n/revoke <user_id> - Quitar el acceso concedido\n/reload - Aplicar los cambios de servers.json',
+  'grant.usage': 'Uso: /grant <user_id> [user|admin]\n\nAccesos concedidos:\n{grants}',
+  'grant.none': '(ninguno)',
+  'grant.invalidRole': 'Rol no válido: {role}. Usa user o admin.',
+  'grant.invalidUser': 'Id de usuario no válido: {userId}',
+  'grant.done': '✅ {userId} ahora tiene acceso como {role}.',
+  'revoke.usage': 'Uso: /revoke <user_id>',
+  'revoke.done': '✅ Acceso de {userId} revocado.',
+  'revoke.notGranted': '{userId} no tiene un acceso concedido con /grant.',
+  'revoke.configured': '⚠️ {userId} está en la configuración del bot (ALLOWED_USERS/ADMIN_USERS) y mantendrá su acceso hasta que se quite de ahí.',
+  'reload.done': '✅ Servidores recargados.\nAñadidos: {added}\nEliminados: {removed}\nModificados: {changed}',
+  'reload.unchanged': '✅ Servidores recargados, no hubo cambios.',
+  'reload.failed': '❌ No se aplicó la configuración de servidores:\n{error}',
+  'reload.none': '(ninguno)',
+
+  'connect.usage': 'Uso: /connect <server_id>\n\nServidores disponibles: {servers}',
+  'connect.connecting': 'Conectando a {serverId}...',
+  'connect.notFound': 'Servidor {serverId} no encontrado en la configuración.',
+  'connect.success': '✅ ¡Conectado a {name}!\n\nHerramientas disponibles ({count}):\n{tools}',
+  'connect.failed': '❌ Error al conectar a {serverId}: {message}',
+
+  'disconnect.usage': 'Uso: /disconnect <server_id>',
+  'disconnect.success': '✅ Desconectado de {serverId}',
+  'disconnect.failed': '❌ Error al desconectar: {message}',
+
+  'servers.none': 'No hay servidores conectados. Usa /connect <server_id> para conectar a un servidor.',
+  'servers.header': '📡 Servidores Conectados ({count}):',
+  'servers.shared': 'compartido',
+  'servers.personal': 'personal',
+  'servers.lastError': 'Último error: {error}',
+  'servers.reconnecting': '🔄 reconectando (intento {attempts})',
+  'servers.failed': '❌ falló',
+  'servers.notConnected': '⚠️ no conectado',
+  'servers.connected': '✅ conectado, {count} herramientas:',
+
+  'status.reconnecting': '⚠️ Se perdió la conexión con {name}{error}. Reintentando...',
+  'status.connected': '✅ {name} está disponible de nuevo.',
+  'status.failed': '❌ No se pudo reconectar a {name}: {error}\n\nUsa /connect {serverId} para reintentar.',
+
+  'resources.none': 'Tus servidores no tienen recursos.',
+  'resources.unknownServer': 'El servidor {serverId} no está entre tus servidores activos.',
+  'resources.header': '📚 Recursos ({count}), página {page}/{pages}:',
+  'resources.expired': 'Esta lista ya no está disponible. Usa /resources de nuevo.',
+  'resources.server': 'Servidor: {serverId}',
+  'resources.type': 'Tipo: {mimeType}',
+  'resources.read': '📖 Leer',
+  'resources.pin': '📌 Fijar',
+  'resources.unpin': '✖️ Desfijar',
+  'resources.pinned': '📌 {name} fijado: su contenido se incluirá en tus próximas preguntas.',
+  'resources.alreadyPinned': '{name} ya estaba fijado.',
+  'resources.unpinned': '✖️ {name} desfijado.',
+  'resources.notPinned': '{uri} no está fijado.',
+  'resources.nonePinned': 'No tienes recursos fijados.',
+  'resources.pinnedHeader': '📌 Recursos fijados ({count}):',
+  'resources.notFound': 'Ninguno de tus servidores tiene el recurso {uri}.',
+  'resources.empty': 'El recurso {uri} está vacío.',
+  'resources.readUsage': 'Uso: /read <uri>\n\nUsa /resources para ver los recursos disponibles.',
+  'resources.pinUsage': 'Uso: /pin <uri>\n\nUsa /resources para ver los recursos disponibles.',
+  'prompts.none': 'Tus servidores no tienen prompts.',
+  'prompts.header': '💬 Prompts ({count}):',
+  'prompts.arguments': 'Argumentos: {arguments}',
+  'prompts.usage': 'Uso: /prompt <nombre> [argumento=valor ...]\nLos argumentos con * son obligatorios; los que falten se te pedirán.',
+  'prompts.notFound': 'Ninguno de tus servidores tiene el prompt {name}. Usa /prompts para ver los prompts disponibles.',
+  'prompts.ambiguous': 'Varios servidores tienen el prompt {name}. Usa uno de: {options}',
+  'prompts.ask': '✏️ {prompt}: envía el valor de {argument}',
+  'prompts.cancel': '✖️ Cancelar',
+  'prompts.cancelled': 'Prompt {name} cancelado.',
+  'prompts.timedOut': 'Prompt {name} cancelado: no hubo respuesta a tiempo.',
+  'prompts.inactive': 'Este prompt ya no espera respuesta.',
+  'prompts.noUserMessage': 'El prompt no tiene ningún mensaje de usuario que enviar.',
+
+  'context.title': '🧠 Contexto de la conversación',
+  'context.tokens': 'Tokens estimados: {used} / {budget} ({percent}%)',
+  'context.messages': '• Mensajes recientes: {count} ({tokens} tokens)',
+  'context.summaryTokens': '• Resumen: {tokens} tokens',
+  'context.summary': '📝 Resumen de la conversación anterior:\n{summary}',
+  'context.noSummary': 'Todavía no hay resumen: toda la conversación cabe en el contexto.',
+
+  'reset.done': '✅ ¡Historial de conversación limpiado!',
+
+  'lang.current': '🌐 Idioma actual: {language}\n\nElige un idioma:',
+  'lang.set': '✅ Idioma cambiado a {language}.',
+  'lang.unsupported': 'Idioma no soportado: {code}. Disponibles: {supported}',
+
+  'limits.messages': '⏳ Enviaste demasiados mensajes (máximo {limit} por minuto). Intenta de nuevo en {time}.',
+  'limits.toolCalls': '⏳ Alcanzaste el límite de {limit} llamadas a herramientas por hora. Intenta de nuevo en {time}.',
+  'limits.tokens': '⏳ Usaste tu presupuesto diario de {limit} tokens. Intenta de nuevo en {time}.',
+  'quota.title': '📊 Tu cuota',
+  'quota.exempt': 'Eres administrador: los límites no se aplican.',
+  'quota.messages': '• Mensajes este minuto: {used} / {limit}',
+  'quota.toolCalls': '• Llamadas a herramientas esta hora: {used} / {limit}',
+  'quota.tokens': '• Tokens hoy: {used} / {limit} (se reinicia en {time})',
+  'quota.unlimited': 'sin límite',
+
+  'document.downloading': '📥 Descargando archivo ({size} MB)...',
+  'document.noServers': 'No hay servidores MCP conectados. Por favor usa /connect para conectar primero a un servidor.',
+  'document.notApproved': '🚫 No se inició la traducción: la herramienta está desactivada o la llamada no se aprobó.',
+  'document.translating':
+    '🔄 Tu documento está siendo traducido...\n\n📄 Archivo: {fileName}\n📊 Tamaño: {size} MB\n⚙️ Tarea: #{jobId}\n\nTe enviaré el documento traducido cuando esté listo. Esto puede tomar unos minutos. Usa /jobs para seguirla o /cancel {jobId} para detenerla.',
+  'media.noVision': '🖼️ El modelo actual no puede ver imágenes. Describe la foto en un mensaje de texto.',
+  'media.noTranscription': '🎙️ Los mensajes de voz no están disponibles: no hay herramienta de transcripción configurada y el modelo no acepta audio.',
+  'media.noSpeech': '🎙️ No se encontró voz en ese mensaje.',
+  'media.transcript': '🎙️ “{text}”',
+
+  'translation.done': '✅ ¡Traducción completada!\n\n📄 Original: {fileName}\n📊 Tamaño: {size}',
+  'translation.fileNotFound': 'Archivo traducido no encontrado: {path}',
+
+  'jobs.none': 'No tienes tareas en segundo plano.',
+  'jobs.header': '⚙️ Tus tareas ({count}):',
+  'jobs.state.queued': '⏳ en cola',
+  'jobs.state.running': '🔄 en curso',
+  'jobs.state.completed': '✅ completada',
+  'jobs.state.failed': '❌ falló',
+  'jobs.state.cancelled': '🚫 cancelada',
+  'jobs.attempt': 'intento {attempt}/{maxAttempts}',
+  'jobs.cancelHint': 'Usa /cancel <id> para detener una tarea.',
+  'jobs.completed': '✅ Tarea #{jobId} ({label}) completada.',
+  'jobs.retrying': '⚠️ El intento {attempt}/{maxAttempts} de la tarea #{jobId} ({label}) falló: {error}\n\nReintentando en {time}...',
+  'jobs.failed':
+    '❌ La tarea #{jobId} ({label}) falló después de {attempts} intentos.\n\nError: {error}\n\nPor favor intenta de nuevo más tarde o contacta a soporte.',
+  'cancel.usage': 'Uso: /cancel <id>\n\nUsa /jobs para ver tus tareas.',
+  'cancel.done': '🚫 Tarea #{jobId} cancelada.',
+  'cancel.finished': 'La tarea #{jobId} ya terminó: {state}',
+  'cancel.notFound': 'No tienes ninguna tarea #{jobId}.',
+
+  'approval.prompt': '🔐 El asistente quiere ejecutar {tool}\n\nArgumentos:\n{args}',
+  'approval.sampling': '🧠 {server} quiere usar el modelo de IA (hasta {maxTokens} tokens)\n\n{request}',
+  'approval.approve': '✅ Aprobar',
+  'approval.deny': '🚫 Denegar',
+  'approval.always': '♾️ Permitir siempre',
+  'approval.approved': '✅ Aprobado',
+  'approval.denied': '🚫 Denegado',
+  'approval.alwaysApproved': '✅ Aprobado (siempre)',
+  'approval.timedOut': '⌛ Sin respuesta, denegado',
+  'approval.cancelled': '⏹️ Cancelado junto con la consulta',
+  'approval.inactive': 'Esta solicitud ya no está activa.',
+  'approval.notYours': 'Solo quien hizo la consulta puede responder.',
+
+  'elicitation.request': '❓ {server} necesita más información:\n\n{message}',
+  'elicitation.answer': '✏️ Responder',
+  'elicitation.accept': '✅ Aceptar',
+  'elicitation.decline': '🙅 Rechazar',
+  'elicitation.cancel': '✖️ Cancelar',
+  'elicitation.field': '({step}/{total}) {name}',
+  'elicitation.typeText': 'Envía la respuesta como mensaje.',
+  'elicitation.typeNumber': 'Envía un número como mensaje.',
+  'elicitation.chooseMany': 'Elige las opciones que quieras y pulsa Listo.',
+  'elicitation.optional': 'Opcional.',
+  'elicitation.yes': 'Sí',
+  'elicitation.no': 'No',
+  'elicitation.done': '☑️ Listo',
+  'elicitation.skip': '⏭️ Omitir',
+  'elicitation.useButtons': 'Responde con los botones, por favor.',
+  'elicitation.invalidNumber': 'Eso no es un número. Inténtalo de nuevo.',
+  'elicitation.notInteger': 'Tiene que ser un número entero. Inténtalo de nuevo.',
+  'elicitation.tooSmall': 'Tiene que ser al menos {min}. Inténtalo de nuevo.',
+  'elicitation.tooLarge': 'Tiene que ser como mucho {max}. Inténtalo de nuevo.',
+  'elicitation.tooShort': 'Tiene que tener al menos {min} caracteres. Inténtalo de nuevo.',
+  'elicitation.tooLong': 'Tiene que tener como mucho {max} caracteres. Inténtalo de nuevo.',
+  'elicitation.invalidFormat': 'Eso no es un {format} válido. Inténtalo de nuevo.',
+  'elicitation.selectMin': 'Elige al menos {min} opciones.',
+  'elicitation.selectMax': 'Elige como mucho {max} opciones.',
+  'elicitation.sent': '✅ Respuesta enviada.',
+  'elicitation.declined': '🙅 Solicitud rechazada.',
+  'elicitation.cancelled': '✖️ Solicitud cancelada.',
+  'elicitation.timedOut': '⌛ Sin respuesta a tiempo, solicitud cancelada.',
+  'elicitation.expired': 'El servidor ya no necesita esta información.',
+  'elicitation.inactive': 'Esta solicitud ya no está activa.',
+  'progress.running': '🔧 Ejecutando {tool}…',
+  'progress.steps': '{progress} completados',
+  'progress.cancel': '✖️ Cancelar',
+  'progress.cancelled': '✖️ {tool} cancelado.',
+  'progress.stopped': 'Detenido: se canceló la llamada a la herramienta.',
+  'progress.inactive': 'Esta llamada a la herramienta ya terminó.',
+  'stream.thinking': '⏳ Pensando…',
+  'stream.callingTool': '🔧 llamando a {tool}…',
+  'stream.empty': '(sin respuesta)',
+};
@@ -0,0 +1,196 @@
+import type { MessageCatalog } from '../index.js';
+
+export const pt: MessageCatalog = {
+  'common.unknownError': 'Erro desconhecido',
+  'error.generic': '❌ Erro: {message}',
+  'error.unexpected': 'Ocorreu um erro ao processar sua solicitação.',
+
+  'start.welcome':
+    'Bem-vindo ao Cliente MCP do Telegram! 🤖\n\nSou um assistente de IA movido pelo Protocolo de Contexto de Modelo.\n\n{commands}\n\nVocê pode me enviar:\n- Mensagens de texto\n- Documentos PDF (posso traduzi-los!)\n\nÉ só enviar um arquivo e me dizer o que quer fazer com ele!',
+  'help.text': '{commands}\n\nÉ só me mandar uma mensagem para conversar! Em grupos, me mencione ou responda a uma das minhas mensagens.',
+  'help.commands':
+    'Comandos disponíveis:\n/start - Mensagem de boas-vindas\n/help - Mostrar esta ajuda\n/connect <server_id> - Conectar a um servidor MCP\n/disconnect <server_id> - Desconectar de um servidor\n/servers - Listar servidores conectados e ferramentas disponíveis\n/resources [server_id] - Explorar os recursos dos seus servidores\n/read <uri> - Ver um recurso\n/pin <uri> - Fixar um recurso no contexto\n/unpin [uri] - Desafixar recursos\n/prompts - Ver os prompts dos seus servidores\n/prompt <nome> - Executar um prompt\n/context - Ver o uso de contexto e o resumo\n/jobs - Ver suas tarefas em segundo plano\n/cancel <id> - Cancelar uma tarefa\n/quota - Ver seus limites de uso\n/lang - Mudar o idioma\n/reset - Limpar o histórico da conversa',
+
+  'access.denied': '🚫 Você não tem acesso a este bot. Peça a um administrador para concedê-lo usando seu id: {userId}',
+  'access.adminOnly': '🚫 Este comando é só para administradores.',
+  'access.serverDenied': '🚫 Você não tem permissão para usar o servidor {serverId}.',
+  'group.adminOnly': '🚫 Em grupos, só os administradores do chat podem escolher os servidores.',
+  'admin.commands':
+    'Comandos de administração:\n/grant <user_id> [user|admin] - Dar acesso a um usuário\n/revoke <user_id> - Remover um acesso concedido\n/reload - Aplicar as alterações do servers.json',
+  'grant.usage': 'Uso: /grant <user_id> [user|admin]\n\nAcessos concedidos:\n{grants}',
+  'grant.none': '(nenhum)',
+  'grant.invalidRole': 'Papel inválido: {role}. Use user ou admin.',
+  'grant.invalidUser': 'Id de usuário inválido: {userId}',
+  'grant.done': '✅ {userId} agora tem acesso como {role}.',
+  'revoke.usage': 'Uso: /revoke <user_id>',
+  'revoke.done': '✅ Acesso de {userId} revogado.',
+  'revoke.notGranted': '{userId} não tem um acesso concedido com /grant.',
+  'revoke.configured': '⚠️ {userId} está na configuração do bot (ALLOWED_USERS/ADMIN_USERS) e mantém o acesso até ser removido de lá.',
+  'reload.done': '✅ Servidores recarregados.\nAdicionados: {added}\nRemovidos: {removed}\nAlterados: {changed}',
+  'reload.unchanged': '✅ Servidores recarregados, nada mudou.',
+  'reload.failed': '❌ A configuração de servidores não foi aplicada:\n{error}',
+  'reload.none': '(nenhum)',
+
+  'connect.usage': 'Uso: /connect <server_id>\n\nServidores disponíveis: {servers}',
+  'connect.connecting': 'Conectando a {serverId}...',
+  'connect.notFound': 'Servidor {serverId} não encontrado na configuração.',
+  'connect.success': '✅ Conectado a {name}!\n\nFerramentas disponíveis ({count}):\n{tools}',
+  'connect.failed': '❌ Erro ao conectar a {serverId}: {message}',
+
+  'disconnect.usage': 'Uso: /disconnect <server_id>',
+  'disconnect.success': '✅ Desconectado de {serverId}',
+  'disconnect.failed': '❌ Erro ao desconectar: {message}',
+
+  'servers.none': 'Nenhum servidor conectado. Use /connect <server_id> para conectar a um servidor.',
+  'servers.header': '📡 Servidores Conectados ({count}):',
+  'servers.shared': 'compartilhado',
+  'servers.personal': 'pessoal',
+  'servers.lastError': 'Último erro: {error}',
+  'servers.reconnecting': '🔄 reconectando (tentativa {attempts})',
+  'servers.failed': '❌ falhou',
+  'servers.notConnected': '⚠️ não conectado',
+  'servers.connected': '✅ conectado, {count} ferramentas:',
+
+  'status.reconnecting': '⚠️ A conexão com {name} caiu{error}. Tentando novamente...',
+  'status.connected': '✅ {name} está disponível de novo.',
+  'status.failed': '❌ Não foi possível reconectar a {name}: {error}\n\nUse /connect {serverId} para tentar de novo.',
+
+  'resources.none': 'Seus servidores não têm recursos.',
+  'resources.unknownServer': 'O servidor {serverId} não está entre seus servidores ativos.',
+  'resources.header': '📚 Recursos ({count}), página {page}/{pages}:',
+  'resources.expired': 'Esta lista não está mais disponível. Use /resources de novo.',
+  'resources.server': 'Servidor: {serverId}',
+  'resources.type': 'Tipo: {mimeType}',
+  'resources.read': '📖 Ler',
+  'resources.pin': '📌 Fixar',
+  'resources.unpin': '✖️ Desafixar',
+  'resources.pinned': '📌 {name} fixado: seu conteúdo será incluído nas suas próximas perguntas.',
+  'resources.alreadyPinned': '{name} já estava fixado.',
+  'resources.unpinned': '✖️ {name} desafixado.',
+  'resources.notPinned': '{uri} não está fixado.',
+  'resources.nonePinned': 'Você não tem recursos fixados.',
+  'resources.pinnedHeader': '📌 Recursos fixados ({count}):',
+  'resources.notFound': 'Nenhum dos seus servidores tem o recurso {uri}.',
+  'resources.empty': 'O recurso {uri} está vazio.',
+  'resources.readUsage': 'Uso: /read <uri>\n\nUse /resources para ver os recursos disponíveis.',
+  'resources.pinUsage': 'Uso: /pin <uri>\n\nUse /resources para ver os recursos disponíveis.',
+  'prompts.none': 'Seus servidores não têm prompts.',
+  'prompts.header': '💬 Prompts ({count}):',
+  'prompts.arguments': 'Argumentos: {arguments}',
+  'prompts.usage': 'Uso: /prompt <nome> [argumento=valor ...]\nOs argumentos com * são obrigatórios; os que faltarem serão pedidos.',
+  'prompts.notFound': 'Nenhum dos seus servidores tem o prompt {name}. Use /prompts para ver os prompts disponíveis.',
+  'prompts.ambiguous': 'Vários servidores têm o prompt {name}. Use um de: {options}',
+  'prompts.ask': '✏️ {prompt}: envie o valor de {argument}',
+  'prompts.cancel': '✖️ Cancelar',
+  'prompts.cancelled': 'Prompt {name} cancelado.',
+  'prompts.timedOut': 'Prompt {name} cancelado: sem resposta a tempo.',
+  'prompts.inactive': 'Este prompt não está mais esperando resposta.',
+  'prompts.noUserMessage': 'O prompt não tem nenhuma mensagem de usuário para enviar.',
+
+  'context.title': '🧠 Contexto da conversa',
+  'context.tokens': 'Tokens estimados: {used} / {budget} ({percent}%)',
+  'context.messages': '• Mensagens recentes: {count} ({tokens} tokens)',
+  'context.summaryTokens': '• Resumo: {tokens} tokens',
+  'context.summary': '📝 Resumo da conversa anterior:\n{summary}',
+  'context.noSummary': 'Ainda não há resumo: a conversa inteira cabe no contexto.',
+
+  'reset.done': '✅ Histórico da conversa limpo!',
+
+  'lang.current': '🌐 Idioma atual: {language}\n\nEscolha um idioma:',
+  'lang.set': '✅ Idioma alterado para {language}.',
+  'lang.unsupported': 'Idioma não suportado: {code}. Disponíveis: {supported}',
+
+  'limits.messages': '⏳ Você está enviando mensagens demais (no máximo {limit} por minuto). Tente de novo em {time}.',
+  'limits.toolCalls': '⏳ Você atingiu o limite de {limit} chamadas de ferramentas por hora. Tente de novo em {time}.',
+  'limits.tokens': '⏳ Você usou seu orçamento diário de {limit} tokens. Tente de novo em {time}.',
+  'quota.title': '📊 Sua cota',
+  'quota.exempt': 'Você é administrador: os limites não se aplicam.',
+  'quota.messages': '• Mensagens neste minuto: {used} / {limit}',
+  'quota.toolCalls': '• Chamadas de ferramentas nesta hora: {used} / {limit}',
+  'quota.tokens': '• Tokens hoje: {used} / {limit} (reinicia em {time})',
+  'quota.unlimited': 'sem limite',
+
+  'document.downloading': '📥 Baixando arquivo ({size} MB)...',
+  'document.noServers': 'Nenhum servidor MCP conectado. Use /connect para conectar a um servidor primeiro.',
+  'document.notApproved': '🚫 A tradução não foi iniciada: a ferramenta está desativada ou a chamada não foi aprovada.',
+  'document.translating':
+    '🔄 Seu documento está sendo traduzido...\n\n📄 Arquivo: {fileName}\n📊 Tamanho: {size} MB\n⚙️ Tarefa: #{jobId}\n\nVou te enviar o documento traduzido quando estiver pronto. Isso pode levar alguns minutos. Use /jobs para acompanhar ou /cancel {jobId} para parar.',
+  'media.noVision': '🖼️ O modelo atual não consegue ver imagens. Descreva a foto em uma mensagem de texto.',
+  'media.noTranscription': '🎙️ Mensagens de voz não estão disponíveis: nenhuma ferramenta de transcrição está configurada e o modelo não aceita áudio.',
+  'media.noSpeech': '🎙️ Nenhuma fala foi encontrada nessa mensagem.',
+  'media.transcript': '🎙️ “{text}”',
+
+  'translation.done': '✅ Tradução concluída!\n\n📄 Original: {fileName}\n📊 Tamanho: {size}',
+  'translation.fileNotFound': 'Arquivo traduzido não encontrado: {path}',
+
+  'jobs.none': 'Você não tem tarefas em segundo plano.',
+  'jobs.header': '⚙️ Suas tarefas ({count}):',
+  'jobs.state.queued': '⏳ na fila',
+  'jobs.state.running': '🔄 em andamento',
+  'jobs.state.completed': '✅ concluída',
+  'jobs.state.failed': '❌ falhou',
+  'jobs.state.cancelled': '🚫 cancelada',
+  'jobs.attempt': 'tentativa {attempt}/{maxAttempts}',
+  'jobs.cancelHint': 'Use /cancel <id> para parar uma tarefa.',
+  'jobs.completed': '✅ Tarefa #{jobId} ({label}) concluída.',
+  'jobs.retrying': '⚠️ A tentativa {attempt}/{maxAttempts} da tarefa #{jobId} ({label}) falhou: {error}\n\nTentando de novo em {time}...',
+  'jobs.failed':
+    '❌ A tarefa #{jobId} ({label}) falhou após {attempts} tentativas.\n\nErro: {error}\n\nPor favor tente novamente mais tarde ou contate o suporte.',
+  'cancel.usage': 'Uso: /cancel <id>\n\nUse /jobs para ver suas tarefas.',
+  'cancel.done': '🚫 Tarefa #{jobId} cancelada.',
+  'cancel.finished': 'A tarefa #{jobId} já terminou: {state}',
+  'cancel.notFound': 'Você não tem nenhuma tarefa #{jobId}.',
+
+  'approval.prompt': '🔐 O assistente quer executar {tool}\n\nArgumentos:\n{args}',
+  'approval.sampling': '🧠 {server} quer usar o modelo de IA (até {maxTokens} tokens)\n\n{request}',
+  'approval.approve': '✅ Aprovar',
+  'approval.deny': '🚫 Negar',
+  'approval.always': '♾️ Permitir sempre',
+  'approval.approved': '✅ Aprovado',
+  'approval.denied': '🚫 Negado',
+  'approval.alwaysApproved': '✅ Aprovado (sempre)',
+  'approval.timedOut': '⌛ Sem resposta, negado',
+  'approval.cancelled': '⏹️ Cancelado junto com a consulta',
+  'approval.inactive': 'Esta solicitação não está mais ativa.',
+  'approval.notYours': 'Só quem fez a pergunta pode responder.',
+
+  'elicitation.request': '❓ {server} precisa de mais informações:\n\n{message}',
+  'elicitation.answer': '✏️ Responder',
+  'elicitation.accept': '✅ Aceitar',
+  'elicitation.decline': '🙅 Recusar',
+  'elicitation.cancel': '✖️ Cancelar',
+  'elicitation.field': '({step}/{total}) {name}',
+  'elicitation.typeText': 'Envie a resposta como mensagem.',
+  'elicitation.typeNumber': 'Envie um número como mensagem.',
+  'elicitation.chooseMany': 'Escolha as opções que quiser e toque em Pronto.',
+  'elicitation.optional': 'Opcional.',
+  'elicitation.yes': 'Sim',
+  'elicitation.no': 'Não',
+  'elicitation.done': '☑️ Pronto',
+  'elicitation.skip': '⏭️ Pular',
+  'elicitation.useButtons': 'Responda com os botões, por favor.',
+  'elicitation.invalidNumber': 'Isso não é um número. Tente de novo.',
+  'elicitation.notInteger': 'Tem que ser um número inteiro. Tente de novo.',
+  'elicitation.tooSmall': 'Tem que ser pelo menos {min}. Tente de novo.',
+  'elicitation.tooLarge': 'Tem que ser no máximo {max}. Tente de novo.',
+  'elicitation.tooShort': 'Tem que ter pelo menos {min} caracteres. Tente de novo.',
+  'elicitation.tooLong': 'Tem que ter no máximo {max} caracteres. Tente de novo.',
+  'elicitation.invalidFormat': 'Isso não é um {format} válido. Tente de novo.',
+  'elicitation.selectMin': 'Escolha pelo menos {min} opções.',
+  'elicitation.selectMax': 'Escolha no máximo {max} opções.',
+  'elicitation.sent': '✅ Resposta enviada.',
+  'elicitation.declined': '🙅 Solicitação recusada.',
+  'elicitation.cancelled': '✖️ Solicitação cancelada.',
+  'elicitation.timedOut': '⌛ Sem resposta a tempo, solicitação cancelada.',
+  'elicitation.expired': 'O servidor não precisa mais desta informação.',
+  'elicitation.inactive': 'Esta solicitação não está mais ativa.',
+  'progress.running': '🔧 Executando {tool}…',
+  'progress.steps': '{progress} concluídos',
+  'progress.cancel': '✖️ Cancelar',
+  'progress.cancelled': '✖️ {tool} cancelado.',
+  'progress.stopped': 'Interrompido: a chamada da ferramenta foi cancelada.',
+  'progress.inactive': 'Esta chamada de ferramenta já terminou.',
+  'stream.thinking': '⏳ Pensando…',
+  'stream.callingTool': '🔧 chamando {tool}…',
+  'stream.empty': '(sem resposta)',
+};
@@ -0,0 +1,288 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import type { Job, JobsConfig } from '../types/index.js';
+import { redact } from '../utils/secrets.js';
+import logger from '../utils/logger.js';
+
+export interface JobHandler {
+  // Throwing fails the attempt; it is retried with backoff while attempts remain.
+  // The signal is aborted when the job is cancelled or the bot shuts down.
+  run(job: Job, signal: AbortSignal): Promise<void>;
+}
+
+export type NewJob = Pick<
+  Job,
+  'kind' | 'userId' | 'chatId' | 'language' | 'label' | 'serverId' | 'toolName' | 'args' | 'approved'
+>;
+
+/**
+ * Runs long tool calls in the background, at most maxConcurrentPerUser at a
+ * time for each user. Failed attempts are retried with exponential backoff.
+ * Jobs are kept in a JSON file, so queued and interrupted jobs resume after a
+ * restart; finished ones are kept for a day so /jobs can show them.
+ */
+export class JobQueue {
+  private config: JobsConfig;
+  private jobs: Map<string, Job> = new Map();
+  private handlers: Map<string, JobHandler> = new Map();
+  private running: Map<string, AbortController> = new Map();
+  private updateListeners: Array<(job: Job) => void> = [];
+  private wakeTimer?: NodeJS.Timeout;
+  private writing: Promise<void> = Promise.resolve();
+  private started = false;
+  private readonly RETRY_BASE_DELAY = 10 * 1000; // 10 seconds
+  private readonly RETRY_MAX_DELAY = 10 * 60 * 1000; // 10 minutes
+  private readonly FINISHED_RETENTION = 24 * 60 * 60 * 1000; // 1 day
+
+  constructor(config: JobsConfig) {
+    this.config = config;
+  }
+
+  register(kind: string, handler: JobHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  // Called when a job starts, is scheduled for a retry, completes, fails or is cancelled
+  onJobUpdate(listener: (job: Job) => void): void {
+    this.updateListeners.push(listener);
+  }
+
+  load(): void {
+    if (!existsSync(this.config.path)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.config.path, 'utf-8'));
+      for (const job of (parsed.jobs || []) as Job[]) {
+        // Interrupted by the last shutdown: run it again without charging an attempt
+        if (job.state === 'running') {
+          job.state = 'queued';
+          job.attempts = Math.max(0, job.attempts - 1);
+        }
+        this.jobs.set(job.id, job);
+      }
+      logger.info(`Loaded ${this.jobs.size} jobs`);
+    } catch (error) {
+      logger.error(`Failed to read jobs from ${this.config.path}:`, error);
+    }
+  }
+
+  start(): void {
+    this.started = true;
+    this.pump();
+  }
+
+  enqueue(input: NewJob): Job {
+    let id: string;
+    do {
+      id = randomBytes(3).toString('hex');
+    } while (this.jobs.has(id));
+
+    const now = Date.now();
+    const job: Job = {
+      ...input,
+      id,
+      state: 'queued',
+      attempts: 0,
+      maxAttempts: this.config.maxAttempts,
+      runAfter: now,
+      createdAt: now,
+    };
+
+    this.jobs.set(id, job);
+    logger.info(`Queued job ${id} (${job.kind}: ${job.toolName}) for user ${job.userId}`);
+    this.persist();
+    this.pump();
+    return job;
+  }
+
+  getJob(jobId: string): Job | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  // Newest first
+  getJobs(userId: string): Job[] {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  // Returns false when the job does not belong to the user or has already finished
+  cancel(userId: string, jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.userId !== userId || (job.state !== 'queued' && job.state !== 'running')) {
+      return false;
+    }
+
+    const controller = this.running.get(jobId);
+    this.running.delete(jobId);
+    controller?.abort();
+
+    job.state = 'cancelled';
+    job.finishedAt = Date.now();
+    logger.info(`Job ${jobId} cancelled by user ${userId}`);
+    this.persist();
+    this.emit(job);
+    this.pump();
+    return true;
+  }
+
+  // Stop running jobs without marking them finished, so they resume on the next start
+  async close(): Promise<void> {
+    this.started = false;
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = undefined;
+    }
+
+    for (const [jobId, controller] of this.running) {
+      const job = this.jobs.get(jobId);
+      if (job) {
+        job.state = 'queued';
+        job.attempts = Math.max(0, job.attempts - 1);
+      }
+      controller.abort();
+    }
+    this.running.clear();
+
+    this.persist();
+    await this.writing;
+  }
+
+  // Start every due job whose user has a free slot
+  private pump(): void {
+    if (!this.started) {
+      return;
+    }
+
+    const now = Date.now();
+    const queued = Array.from(this.jobs.values())
+      .filter((job) => job.state === 'queued' && job.runAfter <= now)
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    for (const job of queued) {
+      if (this.countRunning(job.userId) < this.config.maxConcurrentPerUser) {
+        this.execute(job).catch((error) => {
+          logger.error(`Job ${job.id} crashed:`, error);
+        });
+      }
+    }
+
+    this.scheduleWake();
+  }
+
+  private countRunning(userId: string): number {
+    return Array.from(this.jobs.values()).filter((job) => job.userId === userId && job.state === 'running').length;
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.kind);
+    if (!handler) {
+      this.finish(job, 'failed', `No handler for jobs of kind ${job.kind}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+    job.state = 'running';
+    job.attempts++;
+    logger.info(`Running job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+    this.persist();
+    this.emit(job);
+
+    let failure: string | undefined;
+    try {
+      await handler.run(job, controller.signal);
+    } catch (error) {
+      failure = redact(error instanceof Error ? error.message : String(error));
+      logger.error(`Job ${job.id} attempt ${job.attempts} failed:`, error);
+    }
+
+    // Cancelled or interrupted by shutdown meanwhile: whoever did it already updated the job
+    if (this.running.get(job.id) !== controller) {
+      return;
+    }
+    this.running.delete(job.id);
+
+    if (failure === undefined) {
+      this.finish(job, 'completed');
+    } else if (job.attempts < job.maxAttempts) {
+      const delay = Math.min(this.RETRY_BASE_DELAY * Math.pow(2, job.attempts - 1), this.RETRY_MAX_DELAY);
+      job.state = 'queued';
+      job.lastError = failure;
+      job.runAfter = Date.now() + delay;
+      this.persist();
+      this.emit(job);
+    } else {
+      this.finish(job, 'failed', failure);
+    }
+
+    this.pump();
+  }
+
+  private finish(job: Job, state: 'completed' | 'failed', error?: string): void {
+    job.state = state;
+    job.lastError = error ?? job.lastError;
+    job.finishedAt = Date.now();
+    logger.info(`Job ${job.id} ${state}`);
+    this.persist();
+    this.emit(job);
+  }
+
+  private emit(job: Job): void {
+    for (const listener of this.updateListeners) {
+      try {
+        listener(job);
+      } catch (error) {
+        logger.error('Job update listener failed:', error);
+      }
+    }
+  }
+
+  // Wake up for the earliest retry that is not due yet
+  private scheduleWake(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = undefined;
+    }
+
+    const now = Date.now();
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.state === 'queued' && job.runAfter > now)
+      .reduce((earliest, job) => Math.min(earliest, job.runAfter), Infinity);
+
+    if (next !== Infinity) {
+      this.wakeTimer = setTimeout(() => {
+        this.wakeTimer = undefined;
+        this.pump();
+      }, next - now);
+    }
+  }
+
+  private persist(): void {
+    // Forget jobs that finished long ago
+    const cutoff = Date.now() - this.FINISHED_RETENTION;
+    for (const [jobId, job] of this.jobs) {
+      if (job.finishedAt !== undefined && job.finishedAt < cutoff) {
+        this.jobs.delete(jobId);
+      }
+    }
+
+    const data = JSON.stringify({ jobs: Array.from(this.jobs.values()) });
+    this.writing = this.writing.then(() => this.write(data));
+  }
+
+  private async write(data: string): Promise<void> {
+    try {
+      mkdirSync(dirname(this.config.path), { recursive: true });
+      const tempPath = `${this.config.path}.tmp`;
+      await writeFile(tempPath, data, 'utf-8');
+      await rename(tempPath, this.config.path);
+    } catch (error) {
+      logger.error(`Failed to write jobs to ${this.config.path}:`, error);
+    }
+  }
+}
@@ -1,60 +1,405 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import type { MCPServerConfig, MCPTool } from '../types/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  PromptListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequestFormParams,
+  ElicitResult,
+  GetPromptResult,
+  ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { MCPPrompt, MCPResource, ToolProgress, MCPServerConfig, MCPServerStatus, MCPServerStatusEvent, MCPTool } from '../types/index.js';
+import { qualifyToolName } from './tool-names.js';
+import { redact } from '../utils/secrets.js';
 import logger from '../utils/logger.js';
 
+// Runs a `sampling/createMessage` request a server sent; throwing refuses it
+export type SamplingHandler = (
+  serverId: string,
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal
+) => Promise<CreateMessageResult>;
+
+// Asks the user for the input a server requested with `elicitation/create`
+export type ElicitationHandler = (
+  serverId: string,
+  params: ElicitRequestFormParams,
+  signal: AbortSignal
+) => Promise<ElicitResult>;
+
+export interface ToolCallOptions {
+  // Aborting sends the server a cancellation for the call
+  signal?: AbortSignal;
+  // Time allowed without progress; otherwise practically unlimited (TOOL_CALL_TIMEOUT)
+  timeoutMs?: number;
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+export interface MCPClientOptions {
+  // Each handler declares its capability when set
+  onSampling?: SamplingHandler;
+  onElicitation?: ElicitationHandler;
+}
+
 export class MCPClient {
   private clients: Map<string, Client> = new Map();
-  private transports: Map<string, StdioClientTransport> = new Map();
+  private transports: Map<string, Transport> = new Map();
   private availableTools: Map<string, MCPTool[]> = new Map();
+  private availablePrompts: Map<string, MCPPrompt[]> = new Map();
+  private configs: Map<string, MCPServerConfig> = new Map();
+  private statuses: Map<string, MCPServerStatus> = new Map();
+  private reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+  private pingTimers: Map<string, NodeJS.Timeout> = new Map();
+  private statusListeners: Array<(event: MCPServerStatusEvent) => void> = [];
+  private readonly PING_INTERVAL = 30 * 1000; // 30 seconds
+  private readonly PING_TIMEOUT = 10 * 1000;
+  private readonly RECONNECT_BASE_DELAY = 1000;
+  private readonly RECONNECT_MAX_DELAY = 60 * 1000;
+  private readonly MAX_RECONNECT_ATTEMPTS = 10;
+  // Virtually no timeout - responses are async/decoupled (the largest delay setTimeout accepts)
+  private readonly TOOL_CALL_TIMEOUT = 2 ** 31 - 1;
+  private options: MCPClientOptions;
 
-  async connect(config: MCPServerConfig): Promise<void> {
-    try {
-      logger.info(`Connecting to MCP server: ${config.name} (${config.id})`);
+  constructor(options: MCPClientOptions = {}) {
+    this.options = options;
+  }
 
-      const transport = new StdioClientTransport({
-        command: config.command,
-        args: config.args,
-        env: config.env,
+  private createClient(serverId: string): Client {
+    const { onSampling, onElicitation } = this.options;
+    const client = new Client(
+      {
+        name: 'telegram-mcp-client',
+        version: '1.0.0',
+      },
+      {
+        capabilities: {
+          ...(onSampling ? { sampling: {} } : {}),
+          // Form mode only: the SDK rejects URL requests for us
+          ...(onElicitation ? { elicitation: { form: {} } } : {}),
+        },
+      }
+    );
+
+    if (onSampling) {
+      client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+        logger.info(`Sampling request from ${serverId}`);
+        return await onSampling(serverId, request.params, extra.signal);
       });
+    }
 
-      const client = new Client(
-        {
-          name: 'telegram-mcp-client',
-          version: '1.0.0',
-        },
-        {
-          capabilities: {},
-          timeout: Number.MAX_SAFE_INTEGER, // Virtually no timeout - responses are async/decoupled
+    if (onElicitation) {
+      client.setRequestHandler(ElicitRequestSchema, async (request, extra) => {
+        if (request.params.mode === 'url') {
+          return { action: 'decline' };
         }
-      );
+        logger.info(`Elicitation request from ${serverId}`);
+        return await onElicitation(serverId, request.params, extra.signal);
+      });
+    }
 
-      await client.connect(transport);
+    return client;
+  }
 
-      this.clients.set(config.id, client);
-      this.transports.set(config.id, transport);
+  private getRequestInit(config: MCPServerConfig): RequestInit {
+    const headers: Record<string, string> = { ...config.headers };
+    if (config.authToken) {
+      headers['Authorization'] = `Bearer ${config.authToken}`;
+    }
+    return { headers };
+  }
+
+  private createStdioTransport(config: MCPServerConfig): StdioClientTransport {
+    if (!config.command) {
+      throw new Error(`Server ${config.id} uses stdio transport but has no command`);
+    }
+
+    return new StdioClientTransport({
+      command: config.command,
+      args: config.args || [],
+      env: config.env,
+    });
+  }
+
+  private getServerUrl(config: MCPServerConfig): URL {
+    if (!config.url) {
+      throw new Error(`Server ${config.id} uses ${config.transport} transport but has no url`);
+    }
+    return new URL(config.url);
+  }
+
+  // Connect over Streamable HTTP, falling back to the legacy SSE transport
+  // for servers that only implement the 2024-11-05 protocol revision
+  private async connectHttp(config: MCPServerConfig): Promise<{ client: Client; transport: Transport }> {
+    const url = this.getServerUrl(config);
+    const requestInit = this.getRequestInit(config);
+
+    if (config.transport === 'http') {
+      const client = this.createClient(config.id);
+      const transport = new StreamableHTTPClientTransport(url, { requestInit });
+      try {
+        await client.connect(transport);
+        return { client, transport };
+      } catch (error) {
+        logger.warn(`Streamable HTTP connection to ${config.id} failed, falling back to SSE:`, error);
+        await client.close().catch(() => undefined);
+      }
+    }
 
+    const client = this.createClient(config.id);
+    const transport = new SSEClientTransport(url, { requestInit });
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  private async openConnection(config: MCPServerConfig): Promise<{ client: Client; transport: Transport }> {
+    const transportType = config.transport || 'stdio';
+
+    switch (transportType) {
+      case 'stdio': {
+        const client = this.createClient(config.id);
+        const transport = this.createStdioTransport(config);
+        await client.connect(transport);
+        return { client, transport };
+      }
+      case 'http':
+      case 'sse':
+        return await this.connectHttp(config);
+      default:
+        throw new Error(`Unsupported transport for ${config.id}: ${transportType}`);
+    }
+  }
+
+  // Open the connection, load its tools and start watching its health
+  private async establish(config: MCPServerConfig): Promise<MCPTool[]> {
+    const { client, transport } = await this.openConnection(config);
+
+    try {
       // List available tools
       const toolsResponse = await client.listTools();
-      const tools: MCPTool[] = toolsResponse.tools.map((tool) => ({
-        name: tool.name,
-        description: tool.description || '',
-        inputSchema: tool.inputSchema as MCPTool['inputSchema'],
-      }));
+      const takenNames = new Set(
+        this.getAllTools()
+          .filter((t) => t.serverId !== config.id)
+          .map((t) => t.qualifiedName)
+      );
+      const tools: MCPTool[] = toolsResponse.tools.map((tool) => {
+        const qualifiedName = qualifyToolName(config.id, tool.name, takenNames);
+        takenNames.add(qualifiedName);
+        return {
+          name: tool.name,
+          qualifiedName,
+          serverId: config.id,
+          description: tool.description || '',
+          inputSchema: tool.inputSchema as MCPTool['inputSchema'],
+        };
+      });
 
+      // Prompts are optional extras; a server that fails to list them still connects
+      const prompts = await this.fetchPrompts(config.id, client).catch((error) => {
+        logger.warn(`Failed to list prompts of ${config.id}:`, error);
+        return [];
+      });
+
+      this.clients.set(config.id, client);
+      this.transports.set(config.id, transport);
       this.availableTools.set(config.id, tools);
+      this.availablePrompts.set(config.id, prompts);
+      this.statuses.set(config.id, {
+        state: 'connected',
+        reconnectAttempts: 0,
+        connectedAt: Date.now(),
+      });
+
+      client.onclose = () => {
+        this.handleConnectionLost(config.id, client, new Error('Connection closed'));
+      };
+      client.onerror = (error) => {
+        logger.warn(`Transport error on ${config.id}:`, error);
+        const status = this.statuses.get(config.id);
+        if (status) {
+          status.lastError = redact(error.message);
+        }
+      };
+      client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+        try {
+          const updated = await this.fetchPrompts(config.id, client);
+          if (this.clients.get(config.id) === client) {
+            this.availablePrompts.set(config.id, updated);
+          }
+        } catch (error) {
+          logger.warn(`Failed to refresh prompts of ${config.id}:`, error);
+        }
+      });
+      this.startPing(config.id, client);
+
+      return tools;
+    } catch (error) {
+      await client.close().catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async connect(config: MCPServerConfig): Promise<void> {
+    // Taken before disconnect() below clears it
+    const previous = this.statuses.get(config.id);
+    try {
+      logger.info(`Connecting to MCP server: ${config.name} (${config.id}) via ${config.transport || 'stdio'}`);
+
+      if (this.clients.has(config.id) || this.configs.has(config.id)) {
+        await this.disconnect(config.id);
+      }
+
+      const tools = await this.establish(config);
+      this.configs.set(config.id, config);
 
       logger.info(
         `Connected to ${config.name}, found ${tools.length} tools: ${tools.map((t) => t.name).join(', ')}`
       );
     } catch (error) {
       logger.error(`Failed to connect to ${config.name}:`, error);
+      // A manual retry of a server we gave up on keeps it listed as failed
+      if (previous?.state === 'failed') {
+        this.statuses.set(config.id, {
+          ...previous,
+          lastError: redact(error instanceof Error ? error.message : String(error)),
+        });
+      }
       throw error;
     }
   }
 
+  onStatusChange(listener: (event: MCPServerStatusEvent) => void): void {
+    this.statusListeners.push(listener);
+  }
+
+  private emitStatus(serverId: string): void {
+    const status = this.statuses.get(serverId);
+    if (!status) {
+      return;
+    }
+    for (const listener of this.statusListeners) {
+      try {
+        listener({ serverId, status: { ...status } });
+      } catch (error) {
+        logger.error('Server status listener failed:', error);
+      }
+    }
+  }
+
+  private startPing(serverId: string, client: Client): void {
+    this.stopPing(serverId);
+
+    const timer = setInterval(async () => {
+      try {
+        await client.ping({ timeout: this.PING_TIMEOUT });
+        const status = this.statuses.get(serverId);
+        if (status) {
+          status.lastPingAt = Date.now();
+        }
+      } catch (error) {
+        logger.warn(`Ping to ${serverId} failed:`, error);
+        this.handleConnectionLost(serverId, client, error instanceof Error ? error : new Error(String(error)));
+      }
+    }, this.PING_INTERVAL);
+    timer.unref();
+
+    this.pingTimers.set(serverId, timer);
+  }
+
+  private stopPing(serverId: string): void {
+    const timer = this.pingTimers.get(serverId);
+    if (timer) {
+      clearInterval(timer);
+      this.pingTimers.delete(serverId);
+    }
+  }
+
+  private handleConnectionLost(serverId: string, client: Client, error: Error): void {
+    // Ignore stale clients and servers that were disconnected on purpose
+    if (this.clients.get(serverId) !== client || !this.configs.has(serverId)) {
+      return;
+    }
+
+    logger.warn(`Lost connection to ${serverId}: ${error.message}`);
+
+    this.stopPing(serverId);
+    this.clients.delete(serverId);
+    this.transports.delete(serverId);
+    this.availableTools.delete(serverId);
+    this.availablePrompts.delete(serverId);
+    client.close().catch(() => undefined);
+
+    this.statuses.set(serverId, {
+      state: 'reconnecting',
+      lastError: redact(error.message),
+      reconnectAttempts: 0,
+    });
+    this.emitStatus(serverId);
+    this.scheduleReconnect(serverId);
+  }
+
+  private scheduleReconnect(serverId: string): void {
+    const config = this.configs.get(serverId);
+    const status = this.statuses.get(serverId);
+    if (!config || !status) {
+      return;
+    }
+
+    if (status.reconnectAttempts >= this.MAX_RECONNECT_ATTEMPTS) {
+      logger.error(`Giving up on ${serverId} after ${status.reconnectAttempts} reconnection attempts`);
+      status.state = 'failed';
+      this.emitStatus(serverId);
+      return;
+    }
+
+    // Exponential backoff: 1s, 2s, 4s, ... capped at RECONNECT_MAX_DELAY
+    const delay = Math.min(this.RECONNECT_BASE_DELAY * 2 ** status.reconnectAttempts, this.RECONNECT_MAX_DELAY);
+    status.reconnectAttempts++;
+    logger.info(`Reconnecting to ${serverId} in ${delay}ms (attempt ${status.reconnectAttempts}/${this.MAX_RECONNECT_ATTEMPTS})`);
+
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(serverId);
+      if (this.configs.get(serverId) !== config) {
+        return;
+      }
+
+      try {
+        await this.establish(config);
+        logger.info(`Reconnected to ${serverId}`);
+        this.emitStatus(serverId);
+      } catch (error) {
+        logger.warn(`Reconnection to ${serverId} failed:`, error);
+        status.lastError = redact(error instanceof Error ? error.message : String(error));
+        this.scheduleReconnect(serverId);
+      }
+    }, delay);
+
+    this.reconnectTimers.set(serverId, timer);
+  }
+
+  private cancelReconnect(serverId: string): void {
+    const timer = this.reconnectTimers.get(serverId);
+    if (timer) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(serverId);
+    }
+  }
+
   async disconnect(serverId: string): Promise<void> {
     try {
+      // Forget the config first so the close below is not treated as a crash
+      this.configs.delete(serverId);
+      this.statuses.delete(serverId);
+      this.cancelReconnect(serverId);
+      this.stopPing(serverId);
+
       const client = this.clients.get(serverId);
       if (client) {
         await client.close();
@@ -68,6 +413,7 @@ export class MCPClient {
       }
 
       this.availableTools.delete(serverId);
+      this.availablePrompts.delete(serverId);
       logger.info(`Disconnected from server: ${serverId}`);
     } catch (error) {
       logger.error(`Failed to disconnect from ${serverId}:`, error);
@@ -76,10 +422,15 @@ export class MCPClient {
   }
 
   async disconnectAll(): Promise<void> {
-    const serverIds = Array.from(this.clients.keys());
+    const serverIds = Array.from(new Set([...this.clients.keys(), ...this.configs.keys()]));
     await Promise.all(serverIds.map((id) => this.disconnect(id)));
   }
 
+  getServerStatus(serverId: string): MCPServerStatus | undefined {
+    const status = this.statuses.get(serverId);
+    return status ? { ...status } : undefined;
+  }
+
   getAllTools(): MCPTool[] {
     const allTools: MCPTool[] = [];
     for (const tools of this.availableTools.values()) {
@@ -88,55 +439,89 @@ export class MCPClient {
     return allTools;
   }
 
+  getToolsByServer(): Map<string, MCPTool[]> {
+    return new Map(this.availableTools);
+  }
+
+  getPrompts(serverId: string): MCPPrompt[] {
+    return this.availablePrompts.get(serverId) || [];
+  }
+
   getConnectedServers(): string[] {
     return Array.from(this.clients.keys());
   }
 
-  async executeTool(toolName: string, args: Record<string, unknown>): Promise<unknown> {
-    logger.info(`Executing tool: ${toolName} with args:`, args);
+  // Asking for progress sends a progress token; every notification restarts the timeout
+  async executeTool(
+    serverId: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    options: ToolCallOptions = {}
+  ): Promise<unknown> {
+    const label = `${serverId}/${toolName}`;
+    // Only the argument names: the model may echo secrets or private data into the values
+    logger.info(`Executing tool: ${label} with args: ${Object.keys(args).join(', ') || '(none)'}`);
 
-    // Find which server has this tool
-    let targetServerId: string | undefined;
-    for (const [serverId, tools] of this.availableTools.entries()) {
-      if (tools.some((t) => t.name === toolName)) {
-        targetServerId = serverId;
-        break;
-      }
-    }
-
-    if (!targetServerId) {
-      throw new Error(`Tool ${toolName} not found in any connected server`);
-    }
-
-    const client = this.clients.get(targetServerId);
+    const client = this.clients.get(serverId);
     if (!client) {
-      throw new Error(`Client for server ${targetServerId} not found`);
+      throw new Error(`Client for server ${serverId} not found`);
     }
 
     try {
-      const result = await client.callTool({
-        name: toolName,
-        arguments: args,
-      });
+      const result = await client.callTool(
+        {
+          name: toolName,
+          arguments: args,
+        },
+        undefined,
+        {
+          signal: options.signal,
+          timeout: options.timeoutMs ?? this.TOOL_CALL_TIMEOUT,
+          resetTimeoutOnProgress: true,
+          onprogress: options.onProgress,
+        }
+      );
 
-      logger.info(`Tool ${toolName} executed successfully`);
+      logger.info(`Tool ${label} executed successfully`);
       return result;
     } catch (error) {
-      logger.error(`Failed to execute tool ${toolName}:`, error);
+      logger.error(`Failed to execute tool ${label}:`, error);
       throw error;
     }
   }
 
-  async listResources(serverId: string) {
+  // Every resource the server lists, following pagination cursors
+  async listResources(serverId: string): Promise<MCPResource[]> {
     const client = this.clients.get(serverId);
     if (!client) {
       throw new Error(`Server ${serverId} not connected`);
     }
 
-    return await client.listResources();
+    // Servers without the capability would answer "method not found"
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
+    }
+
+    const resources: MCPResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listResources(cursor ? { cursor } : undefined);
+      for (const resource of page.resources) {
+        resources.push({
+          uri: resource.uri,
+          name: resource.title || resource.name,
+          serverId,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        });
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return resources;
   }
 
-  async readResource(serverId: string, uri: string) {
+  async readResource(serverId: string, uri: string): Promise<ReadResourceResult> {
     const client = this.clients.get(serverId);
     if (!client) {
       throw new Error(`Server ${serverId} not connected`);
@@ -144,4 +529,43 @@ export class MCPClient {
 
     return await client.readResource({ uri });
   }
+
+  // Fill in a prompt template; argument values are always strings in MCP
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<GetPromptResult> {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      throw new Error(`Server ${serverId} not connected`);
+    }
+
+    logger.info(`Getting prompt ${name} from ${serverId}`);
+    return await client.getPrompt({ name, arguments: args });
+  }
+
+  // Every prompt the server lists, following pagination cursors
+  private async fetchPrompts(serverId: string, client: Client): Promise<MCPPrompt[]> {
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+
+    const prompts: MCPPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listPrompts(cursor ? { cursor } : undefined);
+      for (const prompt of page.prompts) {
+        prompts.push({
+          name: prompt.name,
+          serverId,
+          description: prompt.description,
+          arguments: (prompt.arguments || []).map((arg) => ({
+            name: arg.name,
+            description: arg.description,
+            required: arg.required,
+          })),
+        });
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return prompts;
+  }
 }
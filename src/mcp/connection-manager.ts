@@ -0,0 +1,438 @@
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequestFormParams,
+  ElicitResult,
+  GetPromptResult,
+  ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPClient, type MCPClientOptions, type ToolCallOptions } from './client.js';
+import { resolveToolTimeout } from './tool-policy.js';
+import { qualifyToolName } from './tool-names.js';
+import type {
+  MCPPrompt,
+  MCPResource,
+  MCPServerChanges,
+  MCPServerConfig,
+  MCPServerState,
+  MCPServerStatus,
+  MCPServerStatusEvent,
+  MCPTool,
+} from '../types/index.js';
+import logger from '../utils/logger.js';
+
+// The user and scope (a user's or a group's chat) a tool call runs for
+export interface ToolCaller {
+  scopeId: string;
+  userId: string;
+}
+
+// A sampling request together with the tool call it is made during
+export type ScopedSamplingHandler = (
+  caller: ToolCaller,
+  serverId: string,
+  params: CreateMessageRequest['params'],
+  signal: AbortSignal
+) => Promise<CreateMessageResult>;
+
+export type ScopedElicitationHandler = (
+  caller: ToolCaller,
+  serverId: string,
+  params: ElicitRequestFormParams,
+  signal: AbortSignal
+) => Promise<ElicitResult>;
+
+/**
+ * Owns the MCP connections for every user. Servers marked `shared` run once in a
+ * pool used by everybody; all other servers get a separate instance per scope
+ * (a private chat, group or forum topic), spawned with the `userEnv` overrides
+ * of the user in a private chat.
+ */
+export class MCPConnectionManager {
+  private servers: MCPServerConfig[];
+  private toolTimeoutSeconds: number;
+  private sharedClient: MCPClient;
+  private scopedClients: Map<string, MCPClient> = new Map();
+  private pendingConnections: Map<string, Promise<void>> = new Map();
+  private statusListeners: Array<(event: MCPServerStatusEvent) => void> = [];
+  private samplingHandler?: ScopedSamplingHandler;
+  private elicitationHandler?: ScopedElicitationHandler;
+  // Tool calls in progress on each server instance (see getCallKey), most recent last
+  private activeCalls: Map<string, ToolCaller[]> = new Map();
+
+  constructor(servers: MCPServerConfig[], toolTimeoutSeconds: number) {
+    this.servers = servers;
+    this.toolTimeoutSeconds = toolTimeoutSeconds;
+    this.sharedClient = new MCPClient(this.getClientOptions((serverId) => this.getCallers(serverId)));
+    this.sharedClient.onStatusChange((event) => this.emitStatus(event));
+  }
+
+  // Servers can only sample or elicit once a handler is set; until then their requests are refused
+  setSamplingHandler(handler: ScopedSamplingHandler): void {
+    this.samplingHandler = handler;
+  }
+
+  setElicitationHandler(handler: ScopedElicitationHandler): void {
+    this.elicitationHandler = handler;
+  }
+
+  // Route server requests to the handlers with the tool call they belong to
+  private getClientOptions(getCallers: (serverId: string) => ToolCaller[]): MCPClientOptions {
+    return {
+      onSampling: async (serverId, params, signal) => {
+        if (!this.samplingHandler) {
+          throw new Error('Sampling is not available');
+        }
+        return await this.samplingHandler(getSoleCaller(serverId, getCallers(serverId)), serverId, params, signal);
+      },
+      onElicitation: async (serverId, params, signal) => {
+        if (!this.elicitationHandler) {
+          throw new Error('Elicitation is not available');
+        }
+        return await this.elicitationHandler(getSoleCaller(serverId, getCallers(serverId)), serverId, params, signal);
+      },
+    };
+  }
+
+  // Shared servers are keyed by their id alone, per-scope ones by scope and id
+  private getCallKey(serverId: string, scopeId?: string): string {
+    return scopeId === undefined ? serverId : `${scopeId}:${serverId}`;
+  }
+
+  // A server's requests belong to whoever is calling one of its tools
+  private getCallers(serverId: string, scopeId?: string): ToolCaller[] {
+    return this.activeCalls.get(this.getCallKey(serverId, scopeId)) || [];
+  }
+
+  onStatusChange(listener: (event: MCPServerStatusEvent) => void): void {
+    this.statusListeners.push(listener);
+  }
+
+  private emitStatus(event: MCPServerStatusEvent): void {
+    for (const listener of this.statusListeners) {
+      listener(event);
+    }
+  }
+
+  getServerConfig(serverId: string): MCPServerConfig | undefined {
+    return this.servers.find((s) => s.id === serverId);
+  }
+
+  getServers(): MCPServerConfig[] {
+    return this.servers;
+  }
+
+  // Switch to a new server configuration. Removed servers are disconnected for
+  // everybody; changed ones reconnect with their new configuration wherever they ran.
+  async updateServers(servers: MCPServerConfig[]): Promise<MCPServerChanges> {
+    const previous = new Map(this.servers.map((config) => [config.id, config]));
+    const ids = new Set(servers.map((config) => config.id));
+    const changes: MCPServerChanges = {
+      added: servers.filter((config) => !previous.has(config.id)).map((config) => config.id),
+      removed: Array.from(previous.keys()).filter((serverId) => !ids.has(serverId)),
+      changed: servers
+        .filter((config) => previous.has(config.id) && JSON.stringify(previous.get(config.id)) !== JSON.stringify(config))
+        .map((config) => config.id),
+    };
+    this.servers = servers;
+
+    for (const serverId of changes.removed) {
+      await this.stopEverywhere(serverId);
+    }
+
+    for (const serverId of changes.changed) {
+      const config = this.getServerConfig(serverId)!;
+      const { wasShared, scopes } = await this.stopEverywhere(serverId);
+      if (config.shared) {
+        if (wasShared || scopes.length > 0 || config.autoConnect) {
+          await this.reconnect(this.sharedClient, config);
+        }
+        continue;
+      }
+      // Users that had it as a shared server get their own instance on their next message
+      for (const scopeId of scopes) {
+        await this.reconnect(this.getScopedClient(scopeId), this.resolveConfig(scopeId, config));
+      }
+    }
+
+    // Like at startup, new shared autoConnect servers come up right away
+    for (const serverId of changes.added) {
+      const config = this.getServerConfig(serverId)!;
+      if (config.shared && config.autoConnect) {
+        await this.reconnect(this.sharedClient, config);
+      }
+    }
+
+    return changes;
+  }
+
+  // Disconnect a server from the shared pool and every scope, telling where it was running
+  private async stopEverywhere(serverId: string): Promise<{ wasShared: boolean; scopes: string[] }> {
+    const wasShared = this.sharedClient.getServerStatus(serverId) !== undefined;
+    const scopes = Array.from(this.scopedClients.entries())
+      .filter(([, client]) => client.getServerStatus(serverId) !== undefined)
+      .map(([scopeId]) => scopeId);
+
+    const clients = scopes.map((scopeId) => this.scopedClients.get(scopeId)!);
+    if (wasShared) {
+      clients.push(this.sharedClient);
+    }
+    for (const client of clients) {
+      await client.disconnect(serverId).catch((error) => logger.error(`Failed to stop ${serverId}:`, error));
+    }
+    return { wasShared, scopes };
+  }
+
+  private async reconnect(client: MCPClient, config: MCPServerConfig): Promise<void> {
+    try {
+      await client.connect(config);
+    } catch (error) {
+      logger.error(`Failed to reconnect ${config.name} with its new configuration:`, error);
+    }
+  }
+
+  private getScopedClient(scopeId: string): MCPClient {
+    let client = this.scopedClients.get(scopeId);
+    if (!client) {
+      client = new MCPClient(this.getClientOptions((serverId) => this.getCallers(serverId, scopeId)));
+      client.onStatusChange((event) => this.emitStatus({ ...event, scopeId }));
+      this.scopedClients.set(scopeId, client);
+    }
+    return client;
+  }
+
+  private getClientFor(scopeId: string, config: MCPServerConfig): MCPClient | undefined {
+    return config.shared ? this.sharedClient : this.scopedClients.get(scopeId);
+  }
+
+  private resolveConfig(scopeId: string, config: MCPServerConfig): MCPServerConfig {
+    const userEnv = config.userEnv?.[scopeId];
+    if (config.shared || !userEnv) {
+      return config;
+    }
+    return { ...config, env: { ...config.env, ...userEnv } };
+  }
+
+  isConnected(scopeId: string, serverId: string): boolean {
+    const config = this.getServerConfig(serverId);
+    if (!config) {
+      return false;
+    }
+    return this.getClientFor(scopeId, config)?.getConnectedServers().includes(serverId) ?? false;
+  }
+
+  getServerStatus(scopeId: string, serverId: string): MCPServerStatus | undefined {
+    const config = this.getServerConfig(serverId);
+    return config && this.getClientFor(scopeId, config)?.getServerStatus(serverId);
+  }
+
+  async connect(scopeId: string, serverId: string): Promise<MCPTool[]> {
+    const config = this.getServerConfig(serverId);
+    if (!config) {
+      throw new Error(`Server ${serverId} not found in configuration`);
+    }
+
+    if (!this.isConnected(scopeId, serverId)) {
+      // Several users may ask for the same shared server at once; connect it only once
+      const key = config.shared ? serverId : `${scopeId}:${serverId}`;
+      let pending = this.pendingConnections.get(key);
+      if (!pending) {
+        const client = config.shared ? this.sharedClient : this.getScopedClient(scopeId);
+        pending = client
+          .connect(this.resolveConfig(scopeId, config))
+          .finally(() => this.pendingConnections.delete(key));
+        this.pendingConnections.set(key, pending);
+      }
+      await pending;
+    }
+
+    return this.getClientFor(scopeId, config)?.getToolsByServer().get(serverId) || [];
+  }
+
+  async disconnect(scopeId: string, serverId: string): Promise<void> {
+    const config = this.getServerConfig(serverId);
+
+    // Shared servers stay up for everybody else, the caller just stops using them
+    if (!config || config.shared) {
+      return;
+    }
+
+    // Also stops any pending reconnection of a server that is currently down
+    await this.scopedClients.get(scopeId)?.disconnect(serverId);
+  }
+
+  // Make sure every server in the scope's active set is connected, e.g. per-user
+  // autoConnect servers on first use. Failures are logged and skipped.
+  async ensureConnected(scopeId: string, serverIds: string[]): Promise<void> {
+    for (const serverId of serverIds) {
+      // Servers that are up, reconnecting on their own, or that we gave up on
+      // (retried with /connect) are left alone
+      if (this.getServerStatus(scopeId, serverId)) {
+        continue;
+      }
+      try {
+        await this.connect(scopeId, serverId);
+      } catch (error) {
+        logger.error(`Failed to connect ${serverId} for ${scopeId}:`, error);
+      }
+    }
+  }
+
+  // Connect shared servers flagged with autoConnect. Per-user autoConnect servers
+  // are started lazily by ensureConnected the first time each user needs them.
+  async connectSharedServers(): Promise<void> {
+    for (const config of this.servers) {
+      if (!config.autoConnect) {
+        continue;
+      }
+      if (!config.shared) {
+        logger.info(`${config.name} is per-user, it will connect on first use`);
+        continue;
+      }
+      try {
+        logger.info(`Auto-connecting to ${config.name}...`);
+        await this.sharedClient.connect(config);
+      } catch (error) {
+        logger.error(`Failed to auto-connect to ${config.name}:`, error);
+      }
+    }
+  }
+
+  // State of the shared autoConnect servers, which should be up whenever the bot runs
+  getAutoConnectStatus(): Map<string, MCPServerState | 'disconnected'> {
+    const states = new Map<string, MCPServerState | 'disconnected'>();
+    for (const config of this.servers) {
+      if (config.autoConnect && config.shared) {
+        states.set(config.id, this.sharedClient.getServerStatus(config.id)?.state ?? 'disconnected');
+      }
+    }
+    return states;
+  }
+
+  // Shared and per-scope servers are named by different clients, so names are made
+  // unique again over the combined list, in the order of serverIds
+  getToolsByServer(scopeId: string, serverIds: string[]): Map<string, MCPTool[]> {
+    const toolsByServer = new Map<string, MCPTool[]>();
+    const takenNames = new Set<string>();
+    for (const serverId of serverIds) {
+      const config = this.getServerConfig(serverId);
+      const tools = config && this.getClientFor(scopeId, config)?.getToolsByServer().get(serverId);
+      if (!tools) {
+        continue;
+      }
+      toolsByServer.set(
+        serverId,
+        tools.map((tool) => {
+          const qualifiedName = takenNames.has(tool.qualifiedName)
+            ? qualifyToolName(serverId, tool.name, takenNames)
+            : tool.qualifiedName;
+          takenNames.add(qualifiedName);
+          return qualifiedName === tool.qualifiedName ? tool : { ...tool, qualifiedName };
+        })
+      );
+    }
+    return toolsByServer;
+  }
+
+  getTools(scopeId: string, serverIds: string[]): MCPTool[] {
+    return Array.from(this.getToolsByServer(scopeId, serverIds).values()).flat();
+  }
+
+  // Only tools of serverIds, the servers the caller may use in the scope, can be called.
+  // The timeout comes from the server's configuration unless the caller sets one.
+  async executeTool(
+    scopeId: string,
+    userId: string,
+    serverIds: string[],
+    qualifiedName: string,
+    args: Record<string, unknown>,
+    options: ToolCallOptions = {}
+  ): Promise<unknown> {
+    const tool = this.getTools(scopeId, serverIds).find((candidate) => candidate.qualifiedName === qualifiedName);
+    const config = tool && this.getServerConfig(tool.serverId);
+    const client = config && this.getClientFor(scopeId, config);
+    if (!tool || !client) {
+      throw new Error(`Tool ${qualifiedName} is not available in this chat`);
+    }
+
+    const timeoutSeconds = resolveToolTimeout(config, tool.name, this.toolTimeoutSeconds);
+    const callOptions: ToolCallOptions = { timeoutMs: timeoutSeconds * 1000, ...options };
+
+    // Recorded for the duration of the call so the server's requests reach its caller
+    const key = this.getCallKey(tool.serverId, config.shared ? undefined : scopeId);
+    const caller: ToolCaller = { scopeId, userId };
+    const callers = this.activeCalls.get(key) || [];
+    callers.push(caller);
+    this.activeCalls.set(key, callers);
+    try {
+      return await client.executeTool(tool.serverId, tool.name, args, callOptions);
+    } finally {
+      callers.splice(callers.lastIndexOf(caller), 1);
+      if (callers.length === 0) {
+        this.activeCalls.delete(key);
+      }
+    }
+  }
+
+  async listResources(scopeId: string, serverId: string): Promise<MCPResource[]> {
+    return await this.getConnectedClient(scopeId, serverId).listResources(serverId);
+  }
+
+  async readResource(scopeId: string, serverId: string, uri: string): Promise<ReadResourceResult> {
+    return await this.getConnectedClient(scopeId, serverId).readResource(serverId, uri);
+  }
+
+  getPrompts(scopeId: string, serverIds: string[]): MCPPrompt[] {
+    return serverIds.flatMap((serverId) => {
+      const config = this.getServerConfig(serverId);
+      return (config && this.getClientFor(scopeId, config)?.getPrompts(serverId)) || [];
+    });
+  }
+
+  async getPrompt(
+    scopeId: string,
+    serverId: string,
+    name: string,
+    args: Record<string, string>
+  ): Promise<GetPromptResult> {
+    return await this.getConnectedClient(scopeId, serverId).getPrompt(serverId, name, args);
+  }
+
+  private getConnectedClient(scopeId: string, serverId: string): MCPClient {
+    const config = this.getServerConfig(serverId);
+    const client = config && this.getClientFor(scopeId, config);
+    if (!client || !this.isConnected(scopeId, serverId)) {
+      throw new Error(`Server ${serverId} not connected`);
+    }
+    return client;
+  }
+
+  // Tear down every per-user server owned by a scope, e.g. when its session expires
+  async releaseScope(scopeId: string): Promise<void> {
+    const client = this.scopedClients.get(scopeId);
+    if (!client) {
+      return;
+    }
+    this.scopedClients.delete(scopeId);
+    await client.disconnectAll();
+  }
+
+  async disconnectAll(): Promise<void> {
+    const clients = [this.sharedClient, ...this.scopedClients.values()];
+    this.scopedClients.clear();
+    await Promise.all(clients.map((client) => client.disconnectAll()));
+  }
+}
+
+// Requests do not say which tool call they belong to, so with calls from several users or
+// chats in flight they are refused rather than shown to, or billed to, the wrong person
+function getSoleCaller(serverId: string, callers: ToolCaller[]): ToolCaller {
+  if (callers.length === 0) {
+    throw new Error(`No tool call of ${serverId} is in progress to attribute the request to`);
+  }
+  const caller = callers[0];
+  if (callers.some((other) => other.scopeId !== caller.scopeId || other.userId !== caller.userId)) {
+    throw new Error(`Tool calls of ${serverId} from several users are in progress; the request cannot be attributed`);
+  }
+  return caller;
+}
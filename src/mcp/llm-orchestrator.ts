@@ -1,8 +1,58 @@
-import { generateText, type CoreMessage, type CoreTool, jsonSchema } from 'ai';
-import { google } from '@ai-sdk/google';
-import type { LLMConfig, MCPTool, ConversationMessage } from '../types/index.js';
+import {
+  generateText,
+  streamText,
+  type CoreMessage,
+  type CoreTool,
+  type FinishReason,
+  type LanguageModel,
+  type LanguageModelUsage,
+  jsonSchema,
+} from 'ai';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  SamplingMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { LLMConfig, MCPTool, ConversationMessage, MessageAttachment } from '../types/index.js';
+import { renderSystemPrompt, type SystemPromptContext } from './system-prompt.js';
 import logger from '../utils/logger.js';
 
+export type ToolCallHandler = (toolName: string, args: Record<string, unknown>) => Promise<unknown>;
+
+export type ToolApprovalDecision = { approved: true } | { approved: false; reason: string };
+
+// Decides whether a tool call the model asked for may run. Called before onToolCall.
+export type ToolApprovalHandler = (tool: MCPTool, args: Record<string, unknown>) => Promise<ToolApprovalDecision>;
+
+// Progress of a streamed run, reported while the model is still working
+export type StreamEvent =
+  | { type: 'text-delta'; text: string }
+  | { type: 'tool-call'; toolName: string }
+  | { type: 'tool-result'; toolName: string }
+  | { type: 'step-finish' };
+
+export interface QueryOptions {
+  onToolCall: ToolCallHandler;
+  onApproval?: ToolApprovalHandler;
+  // Values for the system prompt template
+  promptContext: SystemPromptContext;
+  // Tokens used by each step, reported as soon as the step is done
+  onUsage?: (totalTokens: number) => void;
+  // Stops the run, e.g. when the user cancels a tool call
+  signal?: AbortSignal;
+  // Images sent with the query
+  attachments?: MessageAttachment[];
+}
+
+export interface SamplingOptions {
+  onUsage?: (totalTokens: number) => void;
+  signal?: AbortSignal;
+}
+
 export class LLMOrchestrator {
   private config: LLMConfig;
 
@@ -10,36 +60,81 @@ export class LLMOrchestrator {
     this.config = config;
   }
 
-  private getModel() {
-    switch (this.config.provider) {
+  private models: Map<string, LanguageModel> = new Map();
+
+  // Providers are created with their own settings instead of reading (or writing)
+  // process.env, so the key in LLMConfig is the only one in use
+  private getModel(modelId: string = this.config.model): LanguageModel {
+    const cached = this.models.get(modelId);
+    if (cached) {
+      return cached;
+    }
+
+    const { provider, apiKey, baseUrl } = this.config;
+    let model: LanguageModel;
+
+    switch (provider) {
       case 'google':
-        // Set API key via environment variable for Google AI
-        process.env.GOOGLE_GENERATIVE_AI_API_KEY = this.config.apiKey;
-        return google(this.config.model);
+        model = createGoogleGenerativeAI({ apiKey, baseURL: baseUrl })(modelId);
+        break;
       case 'anthropic':
-        // Import dynamically when needed
-        throw new Error('Anthropic provider not yet implemented. Install @ai-sdk/anthropic');
+        model = createAnthropic({ apiKey, baseURL: baseUrl })(modelId);
+        break;
       case 'openai':
-        // Import dynamically when needed
-        throw new Error('OpenAI provider not yet implemented. Install @ai-sdk/openai');
+        model = createOpenAI({
+          apiKey,
+          baseURL: baseUrl,
+          organization: this.config.organization,
+          project: this.config.project,
+        })(modelId);
+        break;
+      case 'openai-compatible':
+        if (!baseUrl) {
+          throw new Error('The openai-compatible provider requires a base URL');
+        }
+        model = createOpenAICompatible({
+          name: 'openai-compatible',
+          baseURL: baseUrl,
+          apiKey: apiKey || undefined,
+        })(modelId);
+        break;
       default:
-        throw new Error(`Unsupported provider: ${this.config.provider}`);
+        throw new Error(`Unsupported provider: ${provider}`);
     }
+
+    this.models.set(modelId, model);
+    return model;
   }
 
   private convertMCPToolsToAITools(
     mcpTools: MCPTool[],
-    onToolCall: (toolName: string, args: Record<string, unknown>) => Promise<unknown>
+    onToolCall: ToolCallHandler,
+    onApproval?: ToolApprovalHandler
   ): Record<string, CoreTool> {
     const tools: Record<string, CoreTool> = {};
 
     for (const tool of mcpTools) {
-      tools[tool.name] = {
+      tools[tool.qualifiedName] = {
         description: tool.description,
         parameters: jsonSchema(tool.inputSchema as any),
         execute: async (args: Record<string, unknown>) => {
-          logger.info(`Executing tool via AI SDK: ${tool.name}`);
-          const result = await onToolCall(tool.name, args);
+          if (onApproval) {
+            const decision = await onApproval(tool, args);
+            if (!decision.approved) {
+              logger.info(`Tool call ${tool.qualifiedName} was not approved: ${decision.reason}`);
+              // Tell the model the call was refused instead of failing the whole run
+              return {
+                error: 'tool_call_denied',
+                tool: tool.qualifiedName,
+                reason: decision.reason,
+                message:
+                  'The user did not allow this tool call. Do not retry it; explain what you could not do or continue without it.',
+              };
+            }
+          }
+
+          logger.info(`Executing tool via AI SDK: ${tool.qualifiedName}`);
+          const result = await onToolCall(tool.qualifiedName, args);
           return result;
         },
       };
@@ -48,45 +143,74 @@ export class LLMOrchestrator {
     return tools;
   }
 
+  // Everything generateText and streamText need for a conversational query
+  private buildRequest(
+    query: string,
+    conversationHistory: ConversationMessage[],
+    availableTools: MCPTool[],
+    options: QueryOptions
+  ) {
+    const model = this.getModel();
+    const tools = this.convertMCPToolsToAITools(availableTools, options.onToolCall, options.onApproval);
+
+    // Build messages array from conversation history
+    const messages: CoreMessage[] = conversationHistory.map((msg) => this.toCoreMessage(msg));
+
+    // Add the new user query
+    messages.push(
+      this.toCoreMessage({ role: 'user', content: query, attachments: options.attachments, timestamp: Date.now() })
+    );
+
+    return {
+      model,
+      messages,
+      tools,
+      system: renderSystemPrompt(this.config.systemPrompt, options.promptContext),
+      maxTokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      maxSteps: 10, // Allow multiple tool calls
+      abortSignal: options.signal,
+      // Per step, so a run that fails halfway is still accounted for
+      onStepFinish: ({ usage }: { usage: LanguageModelUsage }) => {
+        if (Number.isFinite(usage.totalTokens)) {
+          options.onUsage?.(usage.totalTokens);
+        }
+      },
+    };
+  }
+
+  // Images go to the model as image parts, or as a note when it cannot see them
+  private toCoreMessage(message: ConversationMessage): CoreMessage {
+    if (message.role !== 'user' || !message.attachments?.length) {
+      return { role: message.role, content: message.content };
+    }
+    if (!this.config.vision) {
+      return { role: 'user', content: describeMessage(message) };
+    }
+
+    return {
+      role: 'user',
+      content: [
+        ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+        ...message.attachments.map((attachment) => ({
+          type: 'image' as const,
+          image: attachment.data,
+          mimeType: attachment.mimeType,
+        })),
+      ],
+    };
+  }
+
   async processQuery(
     query: string,
     conversationHistory: ConversationMessage[],
     availableTools: MCPTool[],
-    onToolCall: (toolName: string, args: Record<string, unknown>) => Promise<unknown>
+    options: QueryOptions
   ): Promise<string> {
     try {
       logger.info(`Processing query with ${availableTools.length} available tools`);
 
-      const model = this.getModel();
-      const tools = this.convertMCPToolsToAITools(availableTools, onToolCall);
-
-      // Build messages array from conversation history
-      const messages: CoreMessage[] = conversationHistory.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
-
-      // Add the new user query
-      messages.push({
-        role: 'user',
-        content: query,
-      });
-
-      const systemPrompt = `Eres un asistente de IA útil con acceso a varias herramientas a través del Protocolo de Contexto de Modelo (MCP).
-Puedes ayudar a los usuarios usando las herramientas disponibles para realizar tareas, acceder a datos y responder preguntas.
-Siempre usa las herramientas apropiadas cuando puedan ayudar a responder la pregunta del usuario.
-Proporciona respuestas claras y concisas, y explica lo que estás haciendo cuando uses herramientas.
-IMPORTANTE: Siempre debes responder en español.`;
-
-      let response = await generateText({
-        model,
-        messages,
-        tools,
-        system: systemPrompt,
-        maxTokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        maxSteps: 10, // Allow multiple tool calls
-      });
+      const response = await generateText(this.buildRequest(query, conversationHistory, availableTools, options));
 
       logger.info(`LLM response received with ${response.steps.length} steps`);
 
@@ -97,44 +221,240 @@ IMPORTANTE: Siempre debes responder en español.`;
     }
   }
 
-  async processQuerySimple(
+  // Same as processQuery, but reports text and tool activity through onEvent as it happens
+  async processQueryStream(
     query: string,
+    conversationHistory: ConversationMessage[],
     availableTools: MCPTool[],
-    onToolCall: (toolName: string, args: Record<string, unknown>) => Promise<unknown>
+    options: QueryOptions,
+    onEvent: (event: StreamEvent) => void
   ): Promise<string> {
     try {
-      logger.info(`Processing simple query with ${availableTools.length} available tools`);
+      logger.info(`Streaming query with ${availableTools.length} available tools`);
+
+      // Tool results are reported from here: the stream's own tool-result parts
+      // are not typed for tools built at runtime
+      const onToolCall: ToolCallHandler = async (toolName, args) => {
+        try {
+          return await options.onToolCall(toolName, args);
+        } finally {
+          onEvent({ type: 'tool-result', toolName });
+        }
+      };
 
-      const model = this.getModel();
-      const tools = this.convertMCPToolsToAITools(availableTools, onToolCall);
+      const result = streamText(
+        this.buildRequest(query, conversationHistory, availableTools, { ...options, onToolCall })
+      );
+
+      let steps = 0;
+      for await (const part of result.fullStream) {
+        switch (part.type) {
+          case 'text-delta':
+            onEvent({ type: 'text-delta', text: part.textDelta });
+            break;
+          case 'tool-call':
+            onEvent({ type: 'tool-call', toolName: part.toolName });
+            break;
+          case 'step-finish':
+            steps++;
+            onEvent({ type: 'step-finish' });
+            break;
+          case 'error':
+            throw part.error;
+        }
+      }
+
+      logger.info(`LLM stream finished with ${steps} steps`);
+
+      return await result.text;
+    } catch (error) {
+      logger.error('Failed to process query:', error);
+      throw error;
+    }
+  }
+
+  // Fold evicted turns into the running summary so long conversations keep
+  // their earlier facts and decisions
+  async summarizeHistory(
+    previousSummary: string | undefined,
+    messages: ConversationMessage[],
+    onUsage?: (totalTokens: number) => void
+  ): Promise<string> {
+    try {
+      logger.info(`Summarizing ${messages.length} evicted messages`);
 
-      const systemPrompt = `Eres un asistente de IA útil con acceso a varias herramientas a través del Protocolo de Contexto de Modelo (MCP).
-Puedes ayudar a los usuarios usando las herramientas disponibles para realizar tareas, acceder a datos y responder preguntas.
-Siempre usa las herramientas apropiadas cuando puedan ayudar a responder la pregunta del usuario.
-Proporciona respuestas claras y concisas, y explica lo que estás haciendo cuando uses herramientas.
-IMPORTANTE: Siempre debes responder en español.`;
+      const transcript = messages.map((msg) => `${msg.role}: ${describeMessage(msg)}`).join('\n\n');
+      const maxSummaryTokens = Math.floor(this.config.contextTokenBudget / 4);
 
       const response = await generateText({
-        model,
+        model: this.getModel(),
+        system: `You maintain a running summary of a conversation between a user and an AI assistant that uses MCP tools.
+Update the existing summary with the new messages. Keep facts, names, file paths, decisions, user preferences and open tasks; drop small talk.
+Write it in the language of the conversation, as plain text, in at most ${maxSummaryTokens * 4} characters. Reply with the summary only.`,
         messages: [
           {
             role: 'user',
-            content: query,
+            content: `Existing summary:\n${previousSummary || '(none)'}\n\nNew messages:\n${transcript}`,
+          },
+        ],
+        maxTokens: maxSummaryTokens,
+        temperature: 0.2,
+      });
+
+      if (Number.isFinite(response.usage.totalTokens)) {
+        onUsage?.(response.usage.totalTokens);
+      }
+      return response.text.trim();
+    } catch (error) {
+      logger.error('Failed to summarize history:', error);
+      throw error;
+    }
+  }
+
+  // Answer a server's sampling request with the configured provider. Model hints are
+  // matched, in order, against the main model and SAMPLING_MODELS; the server's
+  // token limit applies but never goes over the configured one.
+  async createMessage(params: CreateMessageRequest['params'], options: SamplingOptions): Promise<CreateMessageResult> {
+    try {
+      const modelId = this.pickSamplingModel(params.modelPreferences?.hints);
+      logger.info(`Sampling ${params.messages.length} messages with ${modelId}`);
+
+      const maxTokens = this.config.maxTokens ? Math.min(params.maxTokens, this.config.maxTokens) : params.maxTokens;
+      const response = await generateText({
+        model: this.getModel(modelId),
+        system: params.systemPrompt,
+        messages: params.messages.map((message) => convertSamplingMessage(message)),
+        maxTokens,
+        temperature: params.temperature ?? this.config.temperature,
+        stopSequences: params.stopSequences,
+        abortSignal: options.signal,
+      });
+
+      if (Number.isFinite(response.usage.totalTokens)) {
+        options.onUsage?.(response.usage.totalTokens);
+      }
+
+      return {
+        model: modelId,
+        role: 'assistant',
+        content: { type: 'text', text: response.text },
+        stopReason: toStopReason(response.finishReason, endsOnStopSequence(response, params.stopSequences)),
+      };
+    } catch (error) {
+      logger.error('Failed to sample message:', error);
+      throw error;
+    }
+  }
+
+  private pickSamplingModel(hints: Array<{ name?: string }> | undefined): string {
+    const candidates = [this.config.model, ...this.config.samplingModels];
+    for (const hint of hints || []) {
+      const match = hint.name && candidates.find((candidate) => candidate.includes(hint.name!));
+      if (match) {
+        return match;
+      }
+    }
+    return this.config.model;
+  }
+
+  // Speech to text for voice messages, with models that take audio input
+  async transcribe(audio: Buffer, mimeType: string, onUsage?: (totalTokens: number) => void): Promise<string> {
+    try {
+      logger.info(`Transcribing ${audio.length} bytes of ${mimeType}`);
+
+      const response = await generateText({
+        model: this.getModel(),
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: 'Transcribe this audio word for word, in the language it is spoken in. Reply with the transcript only, or with nothing if there is no speech.',
+              },
+              { type: 'file', data: audio, mimeType },
+            ],
           },
         ],
-        tools,
-        system: systemPrompt,
         maxTokens: this.config.maxTokens,
-        temperature: this.config.temperature,
-        maxSteps: 10,
+        temperature: 0,
       });
 
-      logger.info(`LLM response received`);
+      if (Number.isFinite(response.usage.totalTokens)) {
+        onUsage?.(response.usage.totalTokens);
+      }
 
-      return response.text;
+      return response.text.trim();
     } catch (error) {
-      logger.error('Failed to process query:', error);
+      logger.error('Failed to transcribe audio:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  // A one-off query without conversation history
+  async processQuerySimple(query: string, availableTools: MCPTool[], options: QueryOptions): Promise<string> {
+    return await this.processQuery(query, [], availableTools, options);
+  }
+}
+
+// Text of a message with a note for each attachment, e.g. for transcripts
+function describeMessage(message: ConversationMessage): string {
+  const notes = (message.attachments || []).map((attachment) => `[${attachment.type}]`);
+  return [message.content, ...notes].filter(Boolean).join(' ');
+}
+
+function convertSamplingMessage(message: SamplingMessage): CoreMessage {
+  const blocks = Array.isArray(message.content) ? message.content : [message.content];
+
+  // Providers only take images and files from the user; the assistant's turns keep their text
+  if (message.role === 'assistant') {
+    return {
+      role: 'assistant',
+      content: blocks.map((block) => (block.type === 'text' ? block.text : `[${block.type}]`)).join('\n'),
+    };
+  }
+
+  return {
+    role: 'user',
+    content: blocks.map((block) => {
+      switch (block.type) {
+        case 'text':
+          return { type: 'text' as const, text: block.text };
+        case 'image':
+          return { type: 'image' as const, image: block.data, mimeType: block.mimeType };
+        case 'audio':
+          return { type: 'file' as const, data: block.data, mimeType: block.mimeType };
+        default:
+          // Tool use is only sent to clients that declare sampling.tools, which this one does not
+          throw new Error(`Unsupported sampling content: ${block.type}`);
+      }
+    }),
+  };
+}
+
+// The SDK reports both a stop sequence and the end of the turn as `stop`. Anthropic's response
+// names the sequence it stopped on; other providers drop it unless it is left in the text.
+function endsOnStopSequence(
+  response: { text: string; response: { body?: unknown } },
+  stopSequences: string[] | undefined
+): boolean {
+  if (!stopSequences?.length) {
+    return false;
+  }
+  const body = response.response.body as { stop_sequence?: string | null } | undefined;
+  if (typeof body?.stop_sequence === 'string') {
+    return true;
+  }
+  return stopSequences.some((sequence) => sequence !== '' && response.text.endsWith(sequence));
+}
+
+function toStopReason(finishReason: FinishReason, stoppedOnSequence: boolean): string {
+  switch (finishReason) {
+    case 'stop':
+      return stoppedOnSequence ? 'stopSequence' : 'endTurn';
+    case 'length':
+      return 'maxTokens';
+    default:
+      return finishReason;
+  }
+}
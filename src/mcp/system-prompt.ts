@@ -0,0 +1,27 @@
+export const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant with access to various tools through the Model Context Protocol (MCP).
+You can help users by using the available tools to perform tasks, access data and answer questions.
+Always use the appropriate tools when they can help answer the user's question.
+Give clear and concise answers, and explain what you are doing when you use tools.
+Connected MCP servers: {{servers}}
+IMPORTANT: Always answer in {{language}}.`;
+
+export interface SystemPromptContext {
+  // Language to answer in, e.g. "Spanish"
+  language: string;
+  // Names of the MCP servers the user has connected
+  servers: string[];
+}
+
+/**
+ * Fill a system prompt template. Supported placeholders: {{language}},
+ * {{servers}} and {{date}}; unknown ones are left untouched.
+ */
+export function renderSystemPrompt(template: string, context: SystemPromptContext): string {
+  const values: Record<string, string> = {
+    language: context.language,
+    servers: context.servers.length > 0 ? context.servers.join(', ') : 'none',
+    date: new Date().toISOString().slice(0, 10),
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
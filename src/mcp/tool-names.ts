@@ -0,0 +1,33 @@
+import { createHash } from 'crypto';
+
+// Most providers (OpenAI, Anthropic, Gemini) accept ^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$
+const MAX_TOOL_NAME_LENGTH = 64;
+const SEPARATOR = '__';
+
+function sanitize(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function shortHash(value: string): string {
+  return createHash('sha1').update(value).digest('hex').slice(0, 8);
+}
+
+/**
+ * Build a provider-safe tool name qualified by its server id, e.g. `github__search`.
+ * Names that are too long, or that collide after sanitizing, get a stable hash suffix.
+ */
+export function qualifyToolName(serverId: string, toolName: string, taken: Set<string>): string {
+  const raw = `${serverId}${SEPARATOR}${toolName}`;
+  let name = sanitize(raw);
+
+  if (!/^[a-zA-Z_]/.test(name)) {
+    name = `_${name}`;
+  }
+
+  if (name.length > MAX_TOOL_NAME_LENGTH || taken.has(name)) {
+    const suffix = `_${shortHash(raw)}`;
+    name = name.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+  }
+
+  return name;
+}
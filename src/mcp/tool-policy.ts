@@ -0,0 +1,11 @@
+import type { MCPServerConfig, ToolPolicy } from '../types/index.js';
+
+// Per-tool policy wins over the server-wide one; tools run freely unless configured otherwise
+export function resolveToolPolicy(config: MCPServerConfig | undefined, toolName: string): ToolPolicy {
+  return config?.toolPolicies?.[toolName] ?? config?.toolPolicy ?? 'allow';
+}
+
+// Same precedence for timeouts, in seconds, falling back to the global default
+export function resolveToolTimeout(config: MCPServerConfig | undefined, toolName: string, fallback: number): number {
+  return config?.toolTimeouts?.[toolName] ?? config?.toolTimeout ?? fallback;
+}
@@ -0,0 +1,77 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { SessionStore, StoredSession } from './store.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Keeps every session in a single JSON file. Writes are batched and the file is
+ * replaced atomically, so a crash mid-write never leaves it truncated.
+ */
+export class FileSessionStore implements SessionStore {
+  private filePath: string;
+  private sessions: Map<string, StoredSession> = new Map();
+  private writeTimer?: NodeJS.Timeout;
+  private writing: Promise<void> = Promise.resolve();
+  private readonly WRITE_DELAY = 500;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<StoredSession[]> {
+    if (existsSync(this.filePath)) {
+      try {
+        const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+        for (const session of parsed.sessions || []) {
+          this.sessions.set(session.userId, session);
+        }
+      } catch (error) {
+        logger.error(`Failed to read sessions from ${this.filePath}:`, error);
+      }
+    }
+    return Array.from(this.sessions.values());
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    this.sessions.set(session.userId, session);
+    this.scheduleWrite();
+  }
+
+  async delete(userId: string): Promise<void> {
+    if (this.sessions.delete(userId)) {
+      this.scheduleWrite();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = undefined;
+      this.writing = this.writing.then(() => this.write());
+    }
+    await this.writing;
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) {
+      return;
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined;
+      this.writing = this.writing.then(() => this.write());
+    }, this.WRITE_DELAY);
+  }
+
+  private async write(): Promise<void> {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      const data = JSON.stringify({ sessions: Array.from(this.sessions.values()) });
+      await writeFile(tempPath, data, 'utf-8');
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      logger.error(`Failed to write sessions to ${this.filePath}:`, error);
+    }
+  }
+}
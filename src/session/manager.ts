@@ -1,9 +1,95 @@
-import type { Session, ConversationMessage } from '../types/index.js';
+import type { Session, ConversationMessage, PinnedResource } from '../types/index.js';
+import type { Language } from '../i18n/index.js';
+import { MemorySessionStore } from './memory-store.js';
+import { deserializeSession, serializeSession, type SessionStore } from './store.js';
+import { UserPreferences } from './preferences.js';
+import { estimateMessageTokens, estimateTokens } from '../utils/tokens.js';
 import logger from '../utils/logger.js';
 
+// Folds evicted messages of a session into the previous summary and returns the new one;
+// userId is the session's owner, who pays for it
+export type HistorySummarizer = (
+  previousSummary: string | undefined,
+  evictedMessages: ConversationMessage[],
+  userId: string
+) => Promise<string>;
+
+export interface ContextUsage {
+  messages: number;
+  historyTokens: number;
+  summaryTokens: number;
+  budget: number;
+  summary?: string;
+}
+
+export interface SessionManagerOptions {
+  // Servers every new session starts with (the autoConnect ones)
+  defaultServers?: string[];
+  // Called after an inactive session has been removed
+  onSessionExpired?: (userId: string) => void;
+  // Where sessions are persisted, in memory only by default
+  store?: SessionStore;
+  // Idle time after which a session is dropped
+  timeoutMinutes?: number;
+  // Estimated tokens of history kept per session, summary included
+  contextTokenBudget?: number;
+  // Compacts evicted history; without it evicted messages are simply dropped
+  summarizer?: HistorySummarizer;
+  // JSON file for the per-user preferences, in memory only without it
+  preferencesPath?: string;
+}
+
 export class SessionManager {
   private sessions: Map<string, Session> = new Map();
-  private readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+  private readonly SESSION_TIMEOUT: number;
+  private options: SessionManagerOptions;
+  private store: SessionStore;
+  private preferences: UserPreferences;
+  private cleanupTimer?: NodeJS.Timeout;
+  private compactions: Map<string, Promise<void>> = new Map();
+  // Bumped by clearHistory so in-flight summaries of the old history are discarded
+  private historyGenerations: Map<string, number> = new Map();
+  private readonly CONTEXT_TOKEN_BUDGET: number;
+
+  constructor(options: SessionManagerOptions = {}) {
+    this.options = options;
+    this.store = options.store || new MemorySessionStore();
+    this.preferences = new UserPreferences(options.preferencesPath);
+    this.SESSION_TIMEOUT = (options.timeoutMinutes ?? 30) * 60 * 1000; // 30 minutes by default
+    this.CONTEXT_TOKEN_BUDGET = options.contextTokenBudget ?? 8000;
+  }
+
+  // Load sessions saved by a previous run, dropping those that expired meanwhile
+  async restore(): Promise<Session[]> {
+    const now = Date.now();
+    const restored: Session[] = [];
+    this.preferences.load();
+
+    for (const stored of await this.store.load()) {
+      if (now - stored.lastActivity > this.SESSION_TIMEOUT) {
+        await this.store.delete(stored.userId);
+        continue;
+      }
+      const session = deserializeSession(stored);
+      this.sessions.set(session.userId, session);
+      restored.push(session);
+    }
+
+    logger.info(`Restored ${restored.length} sessions`);
+    return restored;
+  }
+
+  private persist(session: Session): void {
+    this.store.save(serializeSession(session)).catch((error) => {
+      logger.error(`Failed to persist session for user ${session.userId}:`, error);
+    });
+  }
+
+  private forget(userId: string): void {
+    this.store.delete(userId).catch((error) => {
+      logger.error(`Failed to delete stored session for user ${userId}:`, error);
+    });
+  }
 
   getSession(userId: string): Session {
     let session = this.sessions.get(userId);
@@ -13,11 +99,13 @@ export class SessionManager {
       session = {
         userId,
         conversationHistory: [],
-        activeServers: new Set(),
+        activeServers: new Set(this.options.defaultServers),
+        pinnedResources: [],
         createdAt: Date.now(),
         lastActivity: Date.now(),
       };
       this.sessions.set(userId, session);
+      this.persist(session);
     } else {
       session.lastActivity = Date.now();
     }
@@ -29,26 +117,120 @@ export class SessionManager {
     const session = this.getSession(userId);
     session.conversationHistory.push(message);
 
-    // Keep only last 20 messages to manage context window
-    if (session.conversationHistory.length > 20) {
-      session.conversationHistory = session.conversationHistory.slice(-20);
+    // Evict the oldest messages until history and summary fit the token budget,
+    // always keeping the newest message
+    const evicted: ConversationMessage[] = [];
+    let tokens = this.countTokens(session);
+    while (tokens > this.CONTEXT_TOKEN_BUDGET && session.conversationHistory.length > 1) {
+      const oldest = session.conversationHistory.shift()!;
+      tokens -= estimateMessageTokens(oldest);
+      evicted.push(oldest);
+    }
+
+    this.persist(session);
+
+    if (evicted.length > 0) {
+      this.compact(session, evicted);
     }
   }
 
+  private countTokens(session: Session): number {
+    const historyTokens = session.conversationHistory.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+    return historyTokens + (session.summary ? estimateTokens(session.summary) : 0);
+  }
+
+  // Summaries are produced in the background, one at a time per session
+  private compact(session: Session, evicted: ConversationMessage[]): void {
+    const summarizer = this.options.summarizer;
+    if (!summarizer) {
+      logger.info(`Dropped ${evicted.length} old messages for user ${session.userId}`);
+      return;
+    }
+
+    const generation = this.historyGenerations.get(session.userId) ?? 0;
+    const previous = this.compactions.get(session.userId) || Promise.resolve();
+    const compaction = previous
+      .then(async () => {
+        const summary = await summarizer(session.summary, evicted, session.ownerId ?? session.userId);
+        if ((this.historyGenerations.get(session.userId) ?? 0) !== generation) {
+          return;
+        }
+        session.summary = summary;
+        this.persist(session);
+        logger.info(`Summarized ${evicted.length} old messages for user ${session.userId}`);
+      })
+      .catch((error) => {
+        logger.error(`Failed to summarize history for user ${session.userId}:`, error);
+      })
+      .finally(() => {
+        if (this.compactions.get(session.userId) === compaction) {
+          this.compactions.delete(session.userId);
+        }
+      });
+    this.compactions.set(session.userId, compaction);
+  }
+
+  // History to send to the model: the running summary first, then recent messages
+  getContext(userId: string): ConversationMessage[] {
+    const session = this.getSession(userId);
+    if (!session.summary) {
+      return [...session.conversationHistory];
+    }
+
+    return [
+      {
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${session.summary}`,
+        timestamp: session.conversationHistory[0]?.timestamp ?? session.lastActivity,
+      },
+      ...session.conversationHistory,
+    ];
+  }
+
+  getContextUsage(userId: string): ContextUsage {
+    const session = this.getSession(userId);
+    return {
+      messages: session.conversationHistory.length,
+      historyTokens: session.conversationHistory.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0),
+      summaryTokens: session.summary ? estimateTokens(session.summary) : 0,
+      budget: this.CONTEXT_TOKEN_BUDGET,
+      summary: session.summary,
+    };
+  }
+
   clearHistory(userId: string): void {
     const session = this.getSession(userId);
     session.conversationHistory = [];
+    session.summary = undefined;
+    this.historyGenerations.set(userId, (this.historyGenerations.get(userId) ?? 0) + 1);
+    this.persist(session);
     logger.info(`Cleared conversation history for user: ${userId}`);
   }
 
   addActiveServer(userId: string, serverId: string): void {
     const session = this.getSession(userId);
     session.activeServers.add(serverId);
+    this.persist(session);
   }
 
   removeActiveServer(userId: string, serverId: string): void {
     const session = this.getSession(userId);
     session.activeServers.delete(serverId);
+    this.persist(session);
+  }
+
+  // Servers new sessions start with, after the server configuration changed
+  setDefaultServers(serverIds: string[]): void {
+    this.options.defaultServers = serverIds;
+  }
+
+  // Take a server that no longer exists out of every session
+  forgetServer(serverId: string): void {
+    for (const session of this.sessions.values()) {
+      if (session.activeServers.delete(serverId)) {
+        this.persist(session);
+      }
+    }
   }
 
   getActiveServers(userId: string): string[] {
@@ -56,8 +238,70 @@ export class SessionManager {
     return Array.from(session.activeServers);
   }
 
+  // Record who is using a scope, see Session.ownerId
+  setOwner(scopeId: string, userId: string): void {
+    const session = this.getSession(scopeId);
+    if (session.ownerId !== userId) {
+      session.ownerId = userId;
+      this.persist(session);
+    }
+  }
+
+  // Tool approvals are preferences of the user, kept across chats and sessions
+  allowToolAlways(userId: string, serverId: string, toolName: string): void {
+    const allowed = this.preferences.get(userId)?.alwaysAllowedTools || [];
+    this.preferences.update(userId, { alwaysAllowedTools: [...allowed, `${serverId}/${toolName}`] });
+  }
+
+  isToolAlwaysAllowed(userId: string, serverId: string, toolName: string): boolean {
+    return this.preferences.get(userId)?.alwaysAllowedTools?.includes(`${serverId}/${toolName}`) ?? false;
+  }
+
+  // Returns false when the resource was already pinned
+  pinResource(userId: string, resource: PinnedResource): boolean {
+    const session = this.getSession(userId);
+    if (session.pinnedResources.some((pinned) => pinned.uri === resource.uri && pinned.serverId === resource.serverId)) {
+      return false;
+    }
+    session.pinnedResources.push(resource);
+    this.persist(session);
+    return true;
+  }
+
+  unpinResource(userId: string, uri: string): boolean {
+    const session = this.getSession(userId);
+    const remaining = session.pinnedResources.filter((pinned) => pinned.uri !== uri);
+    if (remaining.length === session.pinnedResources.length) {
+      return false;
+    }
+    session.pinnedResources = remaining;
+    this.persist(session);
+    return true;
+  }
+
+  getPinnedResources(userId: string): PinnedResource[] {
+    return this.getSession(userId).pinnedResources;
+  }
+
+  // The language is a preference of the user: it outlives their sessions
+  setLanguage(userId: string, language: Language): void {
+    this.preferences.update(userId, { language });
+  }
+
+  getLanguage(userId: string): Language | undefined {
+    return this.preferences.get(userId)?.language;
+  }
+
+  // Scopes whose session currently has the given server active
+  getScopesWithServer(serverId: string): string[] {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.activeServers.has(serverId))
+      .map((session) => session.userId);
+  }
+
   deleteSession(userId: string): void {
     this.sessions.delete(userId);
+    this.forget(userId);
     logger.info(`Deleted session for user: ${userId}`);
   }
 
@@ -69,6 +313,8 @@ export class SessionManager {
     for (const [userId, session] of this.sessions.entries()) {
       if (now - session.lastActivity > this.SESSION_TIMEOUT) {
         this.sessions.delete(userId);
+        this.forget(userId);
+        this.options.onSessionExpired?.(userId);
         cleaned++;
       }
     }
@@ -80,8 +326,16 @@ export class SessionManager {
 
   // Start periodic cleanup
   startCleanup(): void {
-    setInterval(() => {
+    this.cleanupTimer = setInterval(() => {
       this.cleanupInactiveSessions();
     }, 5 * 60 * 1000); // Run every 5 minutes
   }
+
+  // Stop the cleanup timer and flush pending writes to the store
+  async close(): Promise<void> {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+    }
+    await Promise.all([this.store.close(), this.preferences.close()]);
+  }
 }
@@ -0,0 +1,20 @@
+import type { SessionStore, StoredSession } from './store.js';
+
+// Keeps nothing across restarts; the default when no store is configured
+export class MemorySessionStore implements SessionStore {
+  private sessions: Map<string, StoredSession> = new Map();
+
+  async load(): Promise<StoredSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    this.sessions.set(session.userId, session);
+  }
+
+  async delete(userId: string): Promise<void> {
+    this.sessions.delete(userId);
+  }
+
+  async close(): Promise<void> {}
+}
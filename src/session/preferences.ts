@@ -0,0 +1,74 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { Language } from '../i18n/index.js';
+import logger from '../utils/logger.js';
+
+export interface UserPreference {
+  userId: string;
+  language?: Language;
+  // `ask` tools the user chose to always allow, as `serverId/toolName`
+  alwaysAllowedTools?: string[];
+}
+
+/**
+ * Settings that belong to a user rather than to a conversation, the same in
+ * every chat they use the bot in. Unlike sessions they never expire. With a
+ * path they are kept in a JSON file, otherwise only in memory.
+ */
+export class UserPreferences {
+  private filePath?: string;
+  private preferences: Map<string, UserPreference> = new Map();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      for (const preference of parsed.preferences || []) {
+        this.preferences.set(preference.userId, preference);
+      }
+      logger.info(`Loaded preferences of ${this.preferences.size} users`);
+    } catch (error) {
+      logger.error(`Failed to read user preferences from ${this.filePath}:`, error);
+    }
+  }
+
+  // Read-only: looking a user up never creates an entry
+  get(userId: string): UserPreference | undefined {
+    return this.preferences.get(userId);
+  }
+
+  update(userId: string, changes: Partial<Omit<UserPreference, 'userId'>>): void {
+    this.preferences.set(userId, { ...this.preferences.get(userId), ...changes, userId });
+    this.writing = this.writing.then(() => this.write());
+  }
+
+  // Wait for pending writes
+  async close(): Promise<void> {
+    await this.writing;
+  }
+
+  private async write(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      const data = JSON.stringify({ preferences: Array.from(this.preferences.values()) }, null, 2);
+      await writeFile(tempPath, data, 'utf-8');
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      logger.error(`Failed to write user preferences to ${this.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import type { SessionStore, StoredSession } from './store.js';
+
+/**
+ * Keeps one row per session in a SQLite database. better-sqlite3 is an optional
+ * dependency, so it is only loaded when this store is selected.
+ */
+export class SqliteSessionStore implements SessionStore {
+  private filePath: string;
+  private db?: BetterSqlite3.Database;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private async getDb(): Promise<BetterSqlite3.Database> {
+    if (this.db) {
+      return this.db;
+    }
+
+    let Database: typeof BetterSqlite3;
+    try {
+      ({ default: Database } = await import('better-sqlite3'));
+    } catch (error) {
+      throw new Error('The sqlite session store requires better-sqlite3. Install it with: npm install better-sqlite3');
+    }
+
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    this.db = new Database(this.filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        user_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        last_activity INTEGER NOT NULL
+      )
+    `);
+    return this.db;
+  }
+
+  async load(): Promise<StoredSession[]> {
+    const db = await this.getDb();
+    const rows = db.prepare('SELECT data FROM sessions').all() as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as StoredSession);
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(
+      `INSERT INTO sessions (user_id, data, last_activity) VALUES (?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET data = excluded.data, last_activity = excluded.last_activity`
+    ).run(session.userId, JSON.stringify(session), session.lastActivity);
+  }
+
+  async delete(userId: string): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('DELETE FROM sessions WHERE user_id = ?').run(userId);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = undefined;
+  }
+}
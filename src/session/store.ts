@@ -0,0 +1,63 @@
+import type { ConversationMessage, PinnedResource, Session, SessionStoreConfig } from '../types/index.js';
+import { MemorySessionStore } from './memory-store.js';
+import { FileSessionStore } from './file-store.js';
+import { SqliteSessionStore } from './sqlite-store.js';
+
+// JSON-safe form of a Session: Sets are stored as arrays
+export interface StoredSession {
+  userId: string;
+  ownerId?: string;
+  conversationHistory: ConversationMessage[];
+  summary?: string;
+  activeServers: string[];
+  pinnedResources?: PinnedResource[];
+  createdAt: number;
+  lastActivity: number;
+}
+
+export interface SessionStore {
+  load(): Promise<StoredSession[]>;
+  save(session: StoredSession): Promise<void>;
+  delete(userId: string): Promise<void>;
+  // Flush pending writes and release the backend
+  close(): Promise<void>;
+}
+
+export function serializeSession(session: Session): StoredSession {
+  return {
+    userId: session.userId,
+    ownerId: session.ownerId,
+    conversationHistory: session.conversationHistory,
+    summary: session.summary,
+    activeServers: Array.from(session.activeServers),
+    pinnedResources: session.pinnedResources,
+    createdAt: session.createdAt,
+    lastActivity: session.lastActivity,
+  };
+}
+
+export function deserializeSession(stored: StoredSession): Session {
+  return {
+    userId: stored.userId,
+    ownerId: stored.ownerId,
+    conversationHistory: stored.conversationHistory || [],
+    summary: stored.summary,
+    activeServers: new Set(stored.activeServers || []),
+    pinnedResources: stored.pinnedResources || [],
+    createdAt: stored.createdAt,
+    lastActivity: stored.lastActivity,
+  };
+}
+
+export function createSessionStore(config: SessionStoreConfig): SessionStore {
+  switch (config.type) {
+    case 'memory':
+      return new MemorySessionStore();
+    case 'file':
+      return new FileSessionStore(config.path);
+    case 'sqlite':
+      return new SqliteSessionStore(config.path);
+    default:
+      throw new Error(`Unsupported session store: ${config.type}`);
+  }
+}
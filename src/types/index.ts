@@ -1,14 +1,92 @@
+import type { Language } from '../i18n/index.js';
+
+/**
+ * How the client talks to an MCP server:
+ * - `stdio`: spawn `command` as a child process (default)
+ * - `http`: Streamable HTTP at `url`, falling back to SSE for older servers
+ * - `sse`: legacy HTTP+SSE transport at `url`
+ */
+export type MCPTransportType = 'stdio' | 'http' | 'sse';
+
+/**
+ * Whether the assistant may call a tool:
+ * - `allow`: run it right away (default)
+ * - `ask`: ask the user to approve each call in Telegram
+ * - `deny`: never run it
+ */
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+
+/**
+ * What a Telegram user may do:
+ * - `admin`: everything, including /grant and /revoke
+ * - `user`: talk to the bot and use the servers it is allowed on
+ */
+export type AccessRole = 'admin' | 'user';
+
 export interface MCPServerConfig {
   id: string;
   name: string;
-  command: string;
-  args: string[];
+  transport?: MCPTransportType;
+  // stdio transport
+  command?: string;
+  args?: string[];
   env?: Record<string, string>;
+  // http / sse transports
+  url?: string;
+  headers?: Record<string, string>;
+  authToken?: string;
   autoConnect?: boolean;
+  // One connection used by every user. Otherwise each user gets their own instance.
+  shared?: boolean;
+  // Per-user environment overrides for non-shared stdio servers, keyed by Telegram user id
+  userEnv?: Record<string, Record<string, string>>;
+  // Default policy for every tool of the server
+  toolPolicy?: ToolPolicy;
+  // Per-tool overrides, keyed by the server's own tool name (e.g. `write_file`)
+  toolPolicies?: Record<string, ToolPolicy>;
+  // Restrict the server to these Telegram user ids and/or roles. Open to every
+  // authorized user when neither is set; admins can always use it.
+  allowedUsers?: string[];
+  allowedRoles?: AccessRole[];
+  // Seconds a tool call may go without progress before it is cancelled, for every
+  // tool of the server and per tool (by the server's own tool name)
+  toolTimeout?: number;
+  toolTimeouts?: Record<string, number>;
+  // Tools (by the server's own name) that run as background jobs when the model calls them
+  backgroundTools?: string[];
+  // Whether the server may use the LLM through sampling requests; `ask` needs the user's approval
+  samplingPolicy?: ToolPolicy;
+}
+
+// What a reload of the server configuration changed, by server id
+export interface MCPServerChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export type MCPServerState = 'connected' | 'reconnecting' | 'failed';
+
+export interface MCPServerStatus {
+  state: MCPServerState;
+  lastError?: string;
+  reconnectAttempts: number;
+  connectedAt?: number;
+  lastPingAt?: number;
+}
+
+export interface MCPServerStatusEvent {
+  serverId: string;
+  status: MCPServerStatus;
+  // Owner of a per-user connection, undefined for shared servers
+  scopeId?: string;
 }
 
 export interface MCPTool {
   name: string;
+  // Name exposed to the LLM, unique across all connected servers (e.g. `github__search`)
+  qualifiedName: string;
+  serverId: string;
   description: string;
   inputSchema: {
     type: string;
@@ -17,33 +95,180 @@ export interface MCPTool {
   };
 }
 
+// A progress notification for a running tool call; total is unknown for some tools
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
 export interface MCPResource {
   uri: string;
   name: string;
+  serverId: string;
   description?: string;
   mimeType?: string;
 }
 
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  serverId: string;
+  description?: string;
+  arguments: MCPPromptArgument[];
+}
+
+// A resource whose contents are sent to the LLM with every query until unpinned
+export interface PinnedResource {
+  serverId: string;
+  uri: string;
+  name: string;
+}
+
+// A non-text part of a message, such as a photo the user sent; data is base64
+export interface MessageAttachment {
+  type: 'image';
+  mimeType: string;
+  data: string;
+}
+
 export interface ConversationMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  // Sent to the model next to the text; only the user's current message has them
+  attachments?: MessageAttachment[];
   timestamp: number;
 }
 
 export interface Session {
+  // The scope: a user's private chat, a group or a forum topic
   userId: string;
+  // User who last talked to the bot here; the scope's servers are reconnected with their access
+  ownerId?: string;
   conversationHistory: ConversationMessage[];
+  // Running summary of turns evicted from conversationHistory
+  summary?: string;
   activeServers: Set<string>;
+  pinnedResources: PinnedResource[];
   createdAt: number;
   lastActivity: number;
 }
 
+// `openai-compatible` talks to any server implementing the OpenAI chat API
+// (Ollama, vLLM, LM Studio, ...) at `baseUrl`
+export type LLMProvider = 'google' | 'anthropic' | 'openai' | 'openai-compatible';
+
+export type SessionStoreType = 'memory' | 'file' | 'sqlite';
+
+// Markup the model's Markdown answers are converted to
+export type TelegramParseMode = 'HTML' | 'MarkdownV2';
+
+export interface SessionStoreConfig {
+  type: SessionStoreType;
+  // JSON file or SQLite database, unused by the memory store
+  path: string;
+}
+
+export interface AccessConfig {
+  // Telegram user ids allowed to use the bot
+  allowedUsers: string[];
+  // Chat ids (groups, channels) whose members may use the bot
+  allowedChats: string[];
+  // Telegram user ids with the admin role; they cannot be revoked from the bot
+  adminUsers: string[];
+  // JSON file with the grants made with /grant
+  grantsPath: string;
+}
+
+export type JobState = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// A long-running tool call executed outside the conversation
+export interface Job {
+  id: string;
+  // Selects the handler that runs the job, e.g. `tool-call`
+  kind: string;
+  userId: string;
+  // Chat it was started in; `chatId:threadId` for a forum topic
+  chatId: number | string;
+  // Language for the notifications about the job
+  language: Language;
+  // Short description shown in /jobs
+  label: string;
+  serverId: string;
+  // Name of the tool on its server; the qualified name is looked up when the job runs
+  toolName: string;
+  args: Record<string, unknown>;
+  // The user approved the call before it was queued, because its policy was `ask`
+  approved?: boolean;
+  state: JobState;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  // Earliest time the next attempt may start
+  runAfter: number;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export interface JobsConfig {
+  // Path of the JSON file jobs are kept in
+  path: string;
+  maxConcurrentPerUser: number;
+  maxAttempts: number;
+}
+
+// Updates are pushed by Telegram to the built-in HTTP server instead of being polled
+export interface WebhookConfig {
+  // Public HTTPS address Telegram posts the updates to
+  url: string;
+  // Path of the built-in server the updates arrive at; the path of url unless set
+  path: string;
+  // Telegram sends it with every update so forged requests can be rejected
+  secretToken: string;
+}
+
+export interface HttpConfig {
+  // Port of the server for the webhook and the health endpoints; 0 runs none
+  port: number;
+  webhook?: WebhookConfig;
+  // How long shutdown waits for updates still being handled
+  drainTimeoutSeconds: number;
+}
+
+// Per-user limits; 0 disables a limit. Admins are exempt.
+export interface RateLimitConfig {
+  messagesPerMinute: number;
+  toolCallsPerHour: number;
+  // LLM tokens (prompt and completion) per UTC day
+  dailyTokenBudget: number;
+}
+
 export interface LLMConfig {
-  provider: 'google' | 'anthropic' | 'openai';
+  provider: LLMProvider;
   model: string;
+  // May be empty for openai-compatible servers that need no authentication
   apiKey: string;
+  // Overrides the provider's default endpoint; required for openai-compatible
+  baseUrl?: string;
+  // OpenAI only
+  organization?: string;
+  project?: string;
   maxTokens?: number;
   temperature?: number;
+  // Estimated tokens of history (summary included) sent with each query
+  contextTokenBudget: number;
+  // System prompt template, see renderSystemPrompt for its placeholders
+  systemPrompt: string;
+  // Other models of the provider that MCP servers may ask for when sampling
+  samplingModels: string[];
+  // Whether the model takes images, and audio to transcribe voice messages
+  vision: boolean;
+  audio: boolean;
 }
 
 export interface AppConfig {
@@ -51,11 +276,39 @@ export interface AppConfig {
     botToken: string;
     useLocalApi: boolean;
     apiUrl?: string;
+    // Edit the reply progressively while the LLM is working
+    streamResponses: boolean;
+    parseMode: TelegramParseMode;
+    // Answers longer than this many characters are also sent as a .md file; 0 never does
+    replyFileThreshold: number;
+    // Local files a tool points at are only sent from these directories
+    allowedFileDirs: string[];
   };
   llm: LLMConfig;
   mcp: {
     servers: MCPServerConfig[];
+    // servers.json, watched for changes while the bot runs
+    serversPath: string;
+    // Default for servers without toolTimeout
+    toolTimeoutSeconds: number;
+    // Tool that turns voice and audio messages into text, instead of the model
+    transcriptionTool?: { serverId: string; toolName: string };
+  };
+  sessions: {
+    store: SessionStoreConfig;
+    // Sessions idle for longer than this are dropped
+    timeoutMinutes: number;
+    // JSON file with the per-user preferences (/lang, always allowed tools), which never expire
+    preferencesPath: string;
   };
+  access: AccessConfig;
+  limits: RateLimitConfig;
+  jobs: JobsConfig;
+  http: HttpConfig;
+  // Where persistent state (sessions, grants, ...) is written
+  dataDir: string;
+  // Used when the user's Telegram language is not supported
+  defaultLanguage: Language;
   logging: {
     level: string;
   };
@@ -0,0 +1,73 @@
+import { readFileSync } from 'fs';
+
+// `${VAR}`, `${VAR:-default}`, `${file:path}` and `${file:path:-default}`; `$${...}` is left as `${...}`
+const REFERENCE = /\$(\$?)\{([^}]*)\}/g;
+// Shorter values (flags, ports) would redact too much unrelated text
+const MIN_SECRET_LENGTH = 6;
+const REDACTED = '***';
+
+const secrets = new Set<string>();
+
+export interface Interpolation {
+  value: string;
+  // Values that came from the environment or a file
+  resolved: string[];
+}
+
+/**
+ * Replace the references in a configuration value. Throws when a reference
+ * without a default points at an unset variable or an unreadable file.
+ */
+export function interpolate(value: string): Interpolation {
+  const resolved: string[] = [];
+  const result = value.replace(REFERENCE, (match, escaped: string, reference: string) => {
+    if (escaped) {
+      return match.slice(1);
+    }
+
+    const separator = reference.indexOf(':-');
+    const name = separator === -1 ? reference : reference.slice(0, separator);
+    const fallback = separator === -1 ? undefined : reference.slice(separator + 2);
+
+    const found = name.startsWith('file:') ? readSecretFile(name.slice('file:'.length)) : process.env[name];
+    if (found !== undefined && found !== '') {
+      resolved.push(found);
+      return found;
+    }
+    if (fallback !== undefined) {
+      return fallback;
+    }
+    throw new Error(
+      name.startsWith('file:')
+        ? `secret file ${name.slice('file:'.length)} cannot be read`
+        : `environment variable ${name} is not set`
+    );
+  });
+  return { value: result, resolved };
+}
+
+// Secret files usually end with a newline that is not part of the secret
+function readSecretFile(path: string): string | undefined {
+  try {
+    return readFileSync(path, 'utf-8').trim();
+  } catch {
+    return undefined;
+  }
+}
+
+// Remember values that must never be logged or shown in a chat
+export function addSecrets(values: string[]): void {
+  for (const value of values) {
+    if (value.length >= MIN_SECRET_LENGTH) {
+      secrets.add(value);
+    }
+  }
+}
+
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of secrets) {
+    result = result.split(secret).join(REDACTED);
+  }
+  return result;
+}
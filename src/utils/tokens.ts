@@ -0,0 +1,17 @@
+import type { ConversationMessage } from '../types/index.js';
+
+// Rough estimate (~4 characters per token) that works across providers without
+// shipping a tokenizer for each model
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators every message costs on top of its text
+const MESSAGE_OVERHEAD = 4;
+// Providers bill an image as a fixed number of tokens; a typical photo costs about this much
+const IMAGE_TOKENS = 1000;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ConversationMessage): number {
+  return estimateTokens(message.content) + (message.attachments?.length ?? 0) * IMAGE_TOKENS + MESSAGE_OVERHEAD;
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { formatMarkdown } from '../src/bot/markdown.js';
+
+// The single message of a short answer
+function format(markdown: string, parseMode: 'HTML' | 'MarkdownV2') {
+  const messages = formatMarkdown(markdown, parseMode);
+  assert.equal(messages.length, 1);
+  return messages[0];
+}
+
+describe('formatMarkdown', () => {
+  describe('HTML', () => {
+    it('converts inline styles, code and links', () => {
+      assert.deepEqual(format('Some **bold**, _italic_, ~~gone~~ and `a<b>` & [docs](https://example.com/a_(b))', 'HTML'), {
+        text: 'Some <b>bold</b>, <i>italic</i>, <s>gone</s> and <code>a&lt;b&gt;</code> &amp; <a href="https://example.com/a_(b)">docs</a>',
+        plain: 'Some bold, italic, gone and a<b> & docs (https://example.com/a_(b))',
+      });
+    });
+
+    it('converts headings, lists, quotes and rules', () => {
+      assert.equal(
+        format('# Title\n\n- one\n  - nested\n1. first\n\n> quoted\n\n---', 'HTML').text,
+        '<b>Title</b>\n\n• one\n  • nested\n1. first\n\n<blockquote>quoted</blockquote>\n\n———'
+      );
+    });
+
+    it('keeps code blocks and tables monospaced', () => {
+      assert.equal(format('```ts\nif (a < b) {}\n```', 'HTML').text, '<pre><code class="language-ts">if (a &lt; b) {}</code></pre>');
+      assert.equal(format('| a | b |\n|---|---|', 'HTML').text, '<pre><code>| a | b |\n|---|---|</code></pre>');
+    });
+
+    it('does not nest a style in itself', () => {
+      assert.equal(format('# A **bold** title', 'HTML').text, '<b>A bold title</b>');
+    });
+
+    it('writes out links Telegram cannot open', () => {
+      assert.equal(format('[file](/tmp/report.pdf)', 'HTML').text, 'file (/tmp/report.pdf)');
+    });
+  });
+
+  describe('MarkdownV2', () => {
+    it('escapes plain text', () => {
+      assert.equal(format('1 + 1 = 2. (Really!)', 'MarkdownV2').text, '1 \\+ 1 \\= 2\\. \\(Really\\!\\)');
+    });
+
+    it('converts inline styles and links', () => {
+      assert.equal(
+        format('**bold** _italic_ ~~gone~~ `a\\b` [docs](https://example.com/a_(b))', 'MarkdownV2').text,
+        '*bold* _italic_ ~gone~ `a\\\\b` [docs](https://example.com/a_(b\\))'
+      );
+    });
+
+    it('leaves underscores inside words alone', () => {
+      assert.equal(format('snake_case_name', 'MarkdownV2').text, 'snake\\_case\\_name');
+    });
+
+    it('converts code blocks and quotes', () => {
+      assert.equal(format('```js\nconst a = `x`;\n```', 'MarkdownV2').text, '```js\nconst a = \\`x\\`;\n```');
+      assert.equal(format('> one\n> two', 'MarkdownV2').text, '>one\n>two');
+    });
+  });
+
+  describe('splitting', () => {
+    it('keeps short answers in one message', () => {
+      assert.equal(formatMarkdown('first\n\nsecond', 'HTML').length, 1);
+    });
+
+    it('splits between blocks', () => {
+      assert.deepEqual(
+        formatMarkdown('first paragraph\n\nsecond paragraph\n\nthird', 'HTML', 20).map((message) => message.text),
+        ['first paragraph', 'second paragraph', 'third']
+      );
+    });
+
+    it('splits a long paragraph on words, closing the markup of every message', () => {
+      const words = Array.from({ length: 40 }, (_, index) => `word${index}`);
+      const messages = formatMarkdown(`_${words.slice(0, 5).join(' ')}_ ${words.slice(5).join(' ')}`, 'HTML', 50);
+
+      assert.ok(messages.length > 1);
+      for (const message of messages) {
+        assert.ok(message.text.length <= 50);
+        assert.equal(message.text.split('<i>').length, message.text.split('</i>').length);
+      }
+      assert.deepEqual(messages.map((message) => message.plain).join(' ').split(/\s+/).filter((word) => /^word/.test(word)), words);
+    });
+
+    it('splits a long code block on lines, each part a code block of its own', () => {
+      const lines = Array.from({ length: 30 }, (_, index) => `line ${index}`);
+      const messages = formatMarkdown(`\`\`\`\n${lines.join('\n')}\n\`\`\``, 'MarkdownV2', 60);
+
+      assert.ok(messages.length > 1);
+      for (const message of messages) {
+        assert.ok(message.text.length <= 60);
+        assert.match(message.text, /^```\n[\s\S]*\n```$/);
+      }
+      assert.deepEqual(messages.flatMap((message) => message.plain.split('\n')), lines);
+    });
+
+    it('splits words longer than a message', () => {
+      const messages = formatMarkdown('x'.repeat(25), 'HTML', 10);
+      assert.deepEqual(messages.map((message) => message.text), ['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { RateLimiter } from '../src/bot/rate-limiter.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const START = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: START });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it('limits messages per minute with a sliding window', () => {
+    const limiter = new RateLimiter({ messagesPerMinute: 2, toolCallsPerHour: 0, dailyTokenBudget: 0 }, () => false);
+
+    assert.deepEqual(limiter.tryMessage('1'), { allowed: true });
+    mock.timers.tick(20 * 1000);
+    assert.deepEqual(limiter.tryMessage('1'), { allowed: true });
+    assert.deepEqual(limiter.tryMessage('1'), { allowed: false, kind: 'messages', limit: 2, retryAfterMs: 40 * 1000 });
+    // Other users have their own window
+    assert.deepEqual(limiter.tryMessage('2'), { allowed: true });
+
+    mock.timers.tick(40 * 1000);
+    assert.deepEqual(limiter.tryMessage('1'), { allowed: true });
+  });
+
+  it('does not count rejected attempts', () => {
+    const limiter = new RateLimiter({ messagesPerMinute: 1, toolCallsPerHour: 0, dailyTokenBudget: 0 }, () => false);
+
+    limiter.tryMessage('1');
+    limiter.tryMessage('1');
+    limiter.tryMessage('1');
+    assert.equal(limiter.getQuota('1').messages.used, 1);
+  });
+
+  it('limits tool calls per hour', () => {
+    const limiter = new RateLimiter({ messagesPerMinute: 0, toolCallsPerHour: 1, dailyTokenBudget: 0 }, () => false);
+
+    assert.deepEqual(limiter.tryToolCall('1'), { allowed: true });
+    mock.timers.tick(HOUR - 1);
+    assert.deepEqual(limiter.tryToolCall('1'), { allowed: false, kind: 'toolCalls', limit: 1, retryAfterMs: 1 });
+    mock.timers.tick(1);
+    assert.deepEqual(limiter.tryToolCall('1'), { allowed: true });
+  });
+
+  it('treats a limit of 0 as unlimited', () => {
+    const limiter = new RateLimiter({ messagesPerMinute: 0, toolCallsPerHour: 0, dailyTokenBudget: 0 }, () => false);
+
+    for (let i = 0; i < 100; i++) {
+      assert.deepEqual(limiter.tryMessage('1'), { allowed: true });
+      assert.deepEqual(limiter.tryToolCall('1'), { allowed: true });
+    }
+    limiter.addTokens('1', 1_000_000);
+    assert.deepEqual(limiter.checkTokens('1'), { allowed: true });
+  });
+
+  it('refuses messages once the daily token budget is spent, until the next UTC day', () => {
+    const limiter = new RateLimiter({ messagesPerMinute: 0, toolCallsPerHour: 0, dailyTokenBudget: 1000 }, () => false);
+
+    limiter.addTokens('1', 600);
+    assert.deepEqual(limiter.tryMessage('1'), { allowed: true });
+    limiter.addTokens('1', 400);
+    assert.deepEqual(limiter.tryMessage('1'), { allowed: false, kind: 'tokens', limit: 1000, retryAfterMs: 12 * HOUR });
+    assert.equal(limiter.checkTokens('1').allowed, false);
+
+    mock.timers.tick(12 * HOUR);
+    assert.deepEqual(limiter.tryMessage('1'), { allowed: true });
+    assert.equal(limiter.getQuota('1').tokens.used, 0);
+  });
+
+  it('never limits exempt users', () => {
+    const limiter = new RateLimiter({ messagesPerMinute: 1, toolCallsPerHour: 1, dailyTokenBudget: 1 }, (userId) => userId === 'admin');
+
+    limiter.addTokens('admin', 100);
+    for (let i = 0; i < 3; i++) {
+      assert.deepEqual(limiter.tryMessage('admin'), { allowed: true });
+      assert.deepEqual(limiter.tryToolCall('admin'), { allowed: true });
+    }
+    assert.equal(limiter.getQuota('admin').exempt, true);
+  });
+
+  it('reports usage and when it resets', () => {
+    const limiter = new RateLimiter({ messagesPerMinute: 5, toolCallsPerHour: 10, dailyTokenBudget: 1000 }, () => false);
+
+    limiter.tryMessage('1');
+    limiter.tryToolCall('1');
+    limiter.addTokens('1', 250);
+    mock.timers.tick(15 * 1000);
+
+    assert.deepEqual(limiter.getQuota('1'), {
+      exempt: false,
+      messages: { used: 1, limit: 5, resetsInMs: 45 * 1000 },
+      toolCalls: { used: 1, limit: 10, resetsInMs: HOUR - 15 * 1000 },
+      tokens: { used: 250, limit: 1000, resetsInMs: 12 * HOUR - 15 * 1000 },
+    });
+  });
+});
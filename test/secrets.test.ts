@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { addSecrets, interpolate, redact } from '../src/utils/secrets.js';
+
+describe('interpolate', () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'secrets-'));
+    process.env.TEST_SECRET_TOKEN = 'token-from-env';
+    process.env.TEST_SECRET_EMPTY = '';
+    delete process.env.TEST_SECRET_UNSET;
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.TEST_SECRET_TOKEN;
+    delete process.env.TEST_SECRET_EMPTY;
+  });
+
+  it('replaces environment variables and reports their values', () => {
+    assert.deepEqual(interpolate('Bearer ${TEST_SECRET_TOKEN}'), {
+      value: 'Bearer token-from-env',
+      resolved: ['token-from-env'],
+    });
+  });
+
+  it('leaves values without references alone', () => {
+    assert.deepEqual(interpolate('plain value'), { value: 'plain value', resolved: [] });
+  });
+
+  it('uses the default for unset and empty variables without reporting it', () => {
+    assert.deepEqual(interpolate('${TEST_SECRET_UNSET:-fallback}'), { value: 'fallback', resolved: [] });
+    assert.deepEqual(interpolate('${TEST_SECRET_EMPTY:-}'), { value: '', resolved: [] });
+  });
+
+  it('throws for an unset variable without a default', () => {
+    assert.throws(() => interpolate('${TEST_SECRET_UNSET}'), /environment variable TEST_SECRET_UNSET is not set/);
+  });
+
+  it('reads secret files without their trailing newline', () => {
+    const path = join(dir, 'token');
+    writeFileSync(path, 'token-from-file\n');
+    assert.deepEqual(interpolate(`\${file:${path}}`), { value: 'token-from-file', resolved: ['token-from-file'] });
+  });
+
+  it('uses the default for unreadable files and throws without one', () => {
+    const path = join(dir, 'missing');
+    assert.equal(interpolate(`\${file:${path}:-none}`).value, 'none');
+    assert.throws(() => interpolate(`\${file:${path}}`), /secret file .*missing cannot be read/);
+  });
+
+  it('keeps escaped references literally', () => {
+    assert.deepEqual(interpolate('$${TEST_SECRET_TOKEN} and ${TEST_SECRET_TOKEN}'), {
+      value: '${TEST_SECRET_TOKEN} and token-from-env',
+      resolved: ['token-from-env'],
+    });
+  });
+});
+
+describe('redact', () => {
+  it('hides every occurrence of a secret', () => {
+    addSecrets(['s3cr3t-value']);
+    assert.equal(redact('Authorization: s3cr3t-value, again s3cr3t-value'), 'Authorization: ***, again ***');
+  });
+
+  it('ignores values too short to redact safely', () => {
+    addSecrets(['8080']);
+    assert.equal(redact('listening on port 8080'), 'listening on port 8080');
+  });
+});
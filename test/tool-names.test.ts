@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { qualifyToolName } from '../src/mcp/tool-names.js';
+
+const VALID_NAME = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+describe('qualifyToolName', () => {
+  it('prefixes the tool name with the server id', () => {
+    assert.equal(qualifyToolName('github', 'search', new Set()), 'github__search');
+  });
+
+  it('replaces characters providers reject', () => {
+    assert.equal(qualifyToolName('my.server', 'read file', new Set()), 'my_server__read_file');
+  });
+
+  it('makes names start with a letter or underscore', () => {
+    assert.equal(qualifyToolName('1password', 'get', new Set()), '_1password__get');
+  });
+
+  it('shortens long names with a stable hash suffix', () => {
+    const name = qualifyToolName('server', 'x'.repeat(100), new Set());
+    assert.equal(name.length, 64);
+    assert.match(name, VALID_NAME);
+    assert.match(name, /_[0-9a-f]{8}$/);
+    assert.equal(qualifyToolName('server', 'x'.repeat(100), new Set()), name);
+  });
+
+  it('tells apart names that are equal after sanitizing', () => {
+    const taken = new Set([qualifyToolName('a.b', 'tool', new Set())]);
+    const name = qualifyToolName('a b', 'tool', taken);
+    assert.ok(!taken.has(name));
+    assert.match(name, /^a_b__tool_[0-9a-f]{8}$/);
+  });
+});
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { resolveToolPolicy, resolveToolTimeout } from '../src/mcp/tool-policy.js';
+import type { MCPServerConfig } from '../src/types/index.js';
+
+const server: MCPServerConfig = { id: 'files', name: 'Files' };
+
+describe('resolveToolPolicy', () => {
+  it('allows tools of servers without a policy', () => {
+    assert.equal(resolveToolPolicy(server, 'read_file'), 'allow');
+    assert.equal(resolveToolPolicy(undefined, 'read_file'), 'allow');
+  });
+
+  it('applies the server-wide policy to every tool', () => {
+    assert.equal(resolveToolPolicy({ ...server, toolPolicy: 'ask' }, 'read_file'), 'ask');
+  });
+
+  it('lets a per-tool policy override the server-wide one', () => {
+    const config: MCPServerConfig = { ...server, toolPolicy: 'ask', toolPolicies: { read_file: 'allow', delete_file: 'deny' } };
+    assert.equal(resolveToolPolicy(config, 'read_file'), 'allow');
+    assert.equal(resolveToolPolicy(config, 'delete_file'), 'deny');
+    assert.equal(resolveToolPolicy(config, 'write_file'), 'ask');
+  });
+});
+
+describe('resolveToolTimeout', () => {
+  it('falls back to the global default', () => {
+    assert.equal(resolveToolTimeout(server, 'read_file', 300), 300);
+    assert.equal(resolveToolTimeout(undefined, 'read_file', 300), 300);
+  });
+
+  it('prefers the per-tool timeout over the server-wide one', () => {
+    const config: MCPServerConfig = { ...server, toolTimeout: 60, toolTimeouts: { convert: 1800 } };
+    assert.equal(resolveToolTimeout(config, 'convert', 300), 1800);
+    assert.equal(resolveToolTimeout(config, 'read_file', 300), 60);
+  });
+});